@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { 
   FileUp, 
   Settings, 
@@ -11,105 +11,708 @@ import {
   Trash2, 
   Sparkles,
   Loader2,
-  CheckCircle2
+  CheckCircle2,
+  Scissors,
+  History,
+  TriangleAlert,
+  X
 } from 'lucide-react';
-import { PageSize, Orientation, PdfOptions, ProcessedPage, ImageMetadata } from './types';
-import { generatePdfPages, createPdfBlob } from './services/pdfService';
-import { analyzeDocument } from './services/geminiService';
+import { PageSize, Orientation, PdfOptions, PdfPreset, SavedSession, ProcessedPage, SourceImage, BatchMode, ExportTarget, ImageExportFormat, OcrWord, PageEncoding, LengthUnit, DocumentProperties, DocumentAnalysis, AiProvider, AiSettings, Redaction, RedactionSuggestion, SourceView, StitchSeam, PrintLayout } from './types';
+import { PdfContext, generatePdfPages, createPdfBlob, getPageLayout, getLayoutLimits, getPosterLayout, estimatePdfSize, renderOptionsKey, collectBookmarks, getSourceView, layoutSheets } from './services/pdfService';
+import { DEFAULT_PDF_OPTIONS, OPTION_LIMITS, loadPresets, savePresets, upsertPreset, exportPresets, parsePresetFile } from './services/presetService';
+import { loadSession, saveSession, clearSession } from './services/sessionService';
+import { EXPORT_FILES, ExportSink, openDownloadSink, downloadBlob, printPdf, exportPdf, exportPdfPerSource, exportImages, exportHtml } from './services/exportService';
+import { fitToTargetSize, SizeFitResult, SizeFitStep } from './services/sizeService';
+import { analyzeDocument, loadAiSettings, saveAiSettings, analysisDestination, hasConsent } from './services/aiService';
+import { planFromCandidates } from './services/splitService';
+import { importImageFile, importImageUrl, isImportableFile, IMPORT_ACCEPT, baseName } from './services/imageService';
+import { recognizeSource, applyTextLayer } from './services/ocrService';
+import { detectSeams, stitchCaptures } from './services/stitchService';
+import { detectPii, redactedDataUrl, withoutRedactedWords } from './services/redactionService';
+import SourceList from './components/SourceList';
+import BreakEditor from './components/BreakEditor';
+import RedactionEditor from './components/RedactionEditor';
+import Toggle from './components/Toggle';
+import DecorationSettings from './components/DecorationSettings';
+import LayoutSettings from './components/LayoutSettings';
+import PosterSettings from './components/PosterSettings';
+import PrintSettings from './components/PrintSettings';
+import CleanupSettings from './components/CleanupSettings';
+import CleanupPreview from './components/CleanupPreview';
+import DocumentPropertiesPanel from './components/DocumentPropertiesPanel';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import AiConsentDialog from './components/AiConsentDialog';
+import PresetPanel from './components/PresetPanel';
+import UrlImport from './components/UrlImport';
+import StitchReview from './components/StitchReview';
+
+// Quiet time after the last edit before the session is written to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
+const EXPORT_TARGETS = [
+  { key: ExportTarget.Pdf, label: 'PDF' },
+  { key: ExportTarget.Images, label: '图片 (ZIP)' },
+  { key: ExportTarget.Html, label: '可打印 HTML' }
+];
+const IMAGE_EXPORT_FORMATS: { key: ImageExportFormat; label: string }[] = [
+  { key: 'original', label: '保持原格式' },
+  { key: 'PNG', label: 'PNG' },
+  { key: 'JPEG', label: 'JPEG' }
+];
+const TARGET_SIZE_PRESETS = [5, 10, 20];
+// Smallest custom paper side, so margins of a few mm still leave room to print
+const MIN_CUSTOM_PAPER_MM = 30;
+const DPI_PRESETS = [150, 200, 300];
+// Preview pixels per mm of paper (A4 portrait shows at 595px)
+const PREVIEW_PX_PER_MM = 595 / 210;
+const MAX_PREVIEW_WIDTH = 842;
+
+const PAGE_SIZE_LABELS: Partial<Record<PageSize, string>> = {
+  [PageSize.Custom]: '自定义',
+  [PageSize.FitWidth]: '适应图片宽度'
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Layout of settings that leave no printable area throws; processing reports
+// that, while the preview and settings panels just show nothing and user
+// actions pass `onError` to say why they did nothing
+function tryLayout<T>(compute: () => T, fallback: T, onError?: (message: string) => void): T {
+  try {
+    return compute();
+  } catch (err) {
+    onError?.(err instanceof Error ? err.message : String(err));
+    return fallback;
+  }
+}
+
+// Whether two versions of a source render to the same pages (bookmarks don't affect pixels)
+function isSameRenderInput(a: SourceImage, b: SourceImage): boolean {
+  return a.dataUrl === b.dataUrl && a.breaks === b.breaks && a.keepTogether === b.keepTogether
+    && a.redactions === b.redactions;
+}
 
 const App: React.FC = () => {
-  const [image, setImage] = useState<string | null>(null);
-  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  const [sources, setSources] = useState<SourceImage[]>([]);
+  // Bumped for every finished import, see appendSources
+  const [appendCount, setAppendCount] = useState(0);
   const [pages, setPages] = useState<ProcessedPage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<string>('');
-  const [options, setOptions] = useState<PdfOptions>({
-    pageSize: PageSize.A4,
-    orientation: Orientation.Portrait,
-    margin: 10,
-    quality: 0.9
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Files or URLs from the last import that could not be loaded
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  // AI analysis results by source id
+  const [analyses, setAnalyses] = useState<Record<string, DocumentAnalysis>>({});
+  const [analyzingIds, setAnalyzingIds] = useState<string[]>([]);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  // Sources waiting for the user to allow sending them to the AI provider
+  const [pendingAnalysis, setPendingAnalysis] = useState<SourceImage[] | null>(null);
+  const [batchMode, setBatchMode] = useState<BatchMode>(BatchMode.Merge);
+  const [exportTarget, setExportTarget] = useState<ExportTarget>(ExportTarget.Pdf);
+  const [imageFormat, setImageFormat] = useState<ImageExportFormat>('original');
+  const [options, setOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [properties, setProperties] = useState<DocumentProperties>({
+    title: '',
+    author: '',
+    subject: '',
+    keywords: ''
   });
 
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [sizeFit, setSizeFit] = useState<SizeFitResult | null>(null);
+  const [fitStep, setFitStep] = useState<SizeFitStep | null>(null);
+  const [finalSize, setFinalSize] = useState<number | null>(null);
+  // Target size in MB the last downloaded PDF was searched for
+  const [finalSizeTarget, setFinalSizeTarget] = useState<number | null>(null);
+  // Why the pages for the current settings could not be made
+  const [processError, setProcessError] = useState<string | null>(null);
+  // Why the last download or print failed
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ source: number; sources: number; done: number; total: number } | null>(null);
+  const [previewMode, setPreviewMode] = useState<'pages' | 'breaks' | 'redact' | 'cleanup' | 'stitch'>('pages');
+  // Detected personal data awaiting review, by source id
+  const [redactionSuggestions, setRedactionSuggestions] = useState<Record<string, RedactionSuggestion[]>>({});
+  const [detectProgress, setDetectProgress] = useState<number | null>(null);
+  const [detectError, setDetectError] = useState<string | null>(null);
+  // Cleanup result for the before/after preview
+  const [cleanupView, setCleanupView] = useState<SourceView | null>(null);
+  // Seams between the sources for stitching, as adjusted in the review and as detected
+  const [stitchSeams, setStitchSeams] = useState<StitchSeam[] | null>(null);
+  const [detectedSeams, setDetectedSeams] = useState<StitchSeam[]>([]);
+  const [stitchError, setStitchError] = useState<string | null>(null);
+  const [isStitching, setIsStitching] = useState(false);
+  const [editingSourceId, setEditingSourceId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<PdfPreset[]>(loadPresets);
+  const [presetError, setPresetError] = useState<string | null>(null);
+  // Session left from the last visit, offered for restore until dismissed
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Incremented per processing run so results of superseded runs are dropped
+  const runRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // Pages per source, reused while neither the source nor the options change
+  const pageCacheRef = useRef(new Map<string, { source: SourceImage; optionsKey: string; pages: ProcessedPage[] }>());
+  // OCR results per source; only redone when the source pixels change
+  const ocrCacheRef = useRef(new Map<string, { dataUrl: string; words: OcrWord[] }>());
+  const pdfContextRef = useRef<(list: SourceImage[]) => PdfContext>(() => ({}));
+  const withTextLayerRef = useRef<(list: ProcessedPage[], sourceList: SourceImage[], searchable: boolean) => Promise<ProcessedPage[]>>(
+    async (list) => list
+  );
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const processSources = useCallback(async (list: SourceImage[], opts: PdfOptions) => {
+    const run = ++runRef.current;
+    abortRef.current?.abort();
+    if (list.length === 0) {
+      setPages([]);
+      setProgress(null);
+      setIsProcessing(false);
+      return;
+    }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new Image();
-      img.onload = () => {
-        const dataUrl = event.target?.result as string;
-        setImage(dataUrl);
-        setMetadata({
-          name: file.name,
-          width: img.width,
-          height: img.height,
-          type: file.type,
-          size: file.size
+    setProcessError(null);
+    const optionsKey = renderOptionsKey(opts);
+    try {
+      if (opts.targetSizeMb) {
+        // Verified against the PDF as downloaded: same document info and text layer
+        const result = await fitToTargetSize(list, opts, opts.targetSizeMb * 1024 * 1024, {
+          context: pdfContextRef.current(list),
+          prepare: (output) => withTextLayerRef.current(output, list, opts.searchable),
+          signal: controller.signal,
+          onStep: (step) => {
+            if (run === runRef.current) setFitStep(step);
+          }
         });
-        
-        // Auto process initially
-        processImage(dataUrl, img.width, img.height, options);
-      };
-      img.src = event.target?.result as string;
-    };
-    reader.readAsDataURL(file);
-  };
+        if (run !== runRef.current) return;
+        setPages(result.pages);
+        setSizeFit(result);
+        setFinalSize(null);
+        return;
+      }
 
-  const processImage = useCallback(async (dataUrl: string, width: number, height: number, opts: PdfOptions) => {
-    setIsProcessing(true);
-    try {
-      const processed = await generatePdfPages(dataUrl, width, height, opts);
+      const processed: ProcessedPage[] = [];
+      for (const [idx, source] of list.entries()) {
+        const cached = pageCacheRef.current.get(source.id);
+        if (cached && isSameRenderInput(cached.source, source) && cached.optionsKey === optionsKey) {
+          processed.push(...cached.pages);
+          continue;
+        }
+        const sourcePages = await generatePdfPages(source, opts, source.breaks, {
+          signal: controller.signal,
+          onProgress: (done, total) => {
+            if (run === runRef.current) setProgress({ source: idx, sources: list.length, done, total });
+          }
+        });
+        if (run !== runRef.current) return;
+        pageCacheRef.current.set(source.id, { source, optionsKey, pages: sourcePages });
+        processed.push(...sourcePages);
+      }
+      if (run !== runRef.current) return;
       setPages(processed);
-      
-      // AI analysis - optional side feature
-      analyzeDocument(dataUrl).then(setAiAnalysis).catch(console.error);
+      setSizeFit(null);
+      setFinalSize(null);
     } catch (err) {
-      console.error("Processing failed", err);
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error("Processing failed", err);
+        if (run === runRef.current) {
+          setPages([]);
+          setProcessError(err instanceof Error ? err.message : String(err));
+        }
+      }
     } finally {
-      setIsProcessing(false);
+      if (run === runRef.current) {
+        setIsProcessing(false);
+        setProgress(null);
+        setFitStep(null);
+        setOcrProgress(null);
+      }
     }
   }, []);
 
+  useEffect(() => {
+    loadSession().then(setSavedSession);
+  }, []);
+
+  // Autosave once editing pauses; an empty workspace keeps the last session for restore
+  useEffect(() => {
+    if (sources.length === 0) return;
+    const timer = setTimeout(() => {
+      saveSession({ savedAt: Date.now(), sources, options, batchMode, properties })
+        .catch(err => console.warn("Session autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sources, options, batchMode, properties]);
+
+  const restoreSession = () => {
+    if (!savedSession) return;
+    setOptions(savedSession.options);
+    setBatchMode(savedSession.batchMode);
+    setProperties(savedSession.properties);
+    setSources(savedSession.sources);
+    setSavedSession(null);
+    processSources(savedSession.sources, savedSession.options);
+  };
+
+  const dismissSession = () => {
+    setSavedSession(null);
+    clearSession();
+  };
+
+  const cancelProcessing = () => {
+    runRef.current++;
+    abortRef.current?.abort();
+    setIsProcessing(false);
+    setProgress(null);
+    setFitStep(null);
+  };
+
+  const updateSources = (next: SourceImage[]) => {
+    setSources(next);
+    processSources(next, options);
+  };
+
+  // Imports finish after other edits may have landed, so they append to the
+  // latest list and are processed once it is committed
+  const appendSources = (loaded: SourceImage[]) => {
+    setSources(prev => [...prev, ...loaded]);
+    setAppendCount(count => count + 1);
+  };
+
+  useEffect(() => {
+    if (appendCount > 0) processSources(sources, options);
+  }, [appendCount]);
+
+  const addFiles = async (files: File[]) => {
+    const errors = files
+      .filter(file => !isImportableFile(file))
+      .map(file => `不支持的文件类型: ${file.name}`);
+    const imageFiles = files.filter(isImportableFile);
+    setImportErrors(errors);
+    if (imageFiles.length === 0) return;
+
+    setIsProcessing(true);
+    const results = await Promise.allSettled(imageFiles.map(importImageFile));
+    const loaded = results.flatMap(result => {
+      if (result.status === 'fulfilled') return result.value;
+      console.error("Image load failed", result.reason);
+      errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+      return [];
+    });
+    setImportErrors(errors);
+    // Always rerun, so a batch that failed entirely still clears the busy state
+    appendSources(loaded);
+  };
+
+  const addUrl = async (url: string) => {
+    setImportErrors([]);
+    try {
+      const loaded = await importImageUrl(url);
+      appendSources(loaded);
+    } catch (err) {
+      console.error("Image download failed", err);
+      setImportErrors([err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    // Allow selecting the same file again later
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  // Files from the system, or an image dragged over from another page
+  const isImportDrag = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes('Files') || e.dataTransfer.types.includes('text/uri-list');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isImportDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isImportDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const files = Array.from<File>(e.dataTransfer.files);
+    if (files.length > 0) {
+      addFiles(files);
+      return;
+    }
+    const url = e.dataTransfer.getData('text/uri-list').split('\n').find(line => line && !line.startsWith('#'));
+    if (url) addUrl(url.trim());
+  };
+
+  // Ctrl+V of a screenshot or of an image address, anywhere but in text fields
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from<File>(e.clipboardData?.files ?? []);
+      if (files.length > 0) {
+        e.preventDefault();
+        addFiles(files);
+        return;
+      }
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const text = e.clipboardData?.getData('text/plain').trim() ?? '';
+      if (/^https?:\/\/\S+$/.test(text)) {
+        e.preventDefault();
+        addUrl(text);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const updateSource = (id: string, patch: Partial<SourceImage>) => {
+    updateSources(sources.map(source => (source.id === id ? { ...source, ...patch } : source)));
+  };
+
+  const handleReorder = (from: number, to: number) => {
+    const next = [...sources];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    updateSources(next);
+  };
+
+  const handleRemove = (id: string) => {
+    const next = sources.filter(source => source.id !== id);
+    pageCacheRef.current.delete(id);
+    ocrCacheRef.current.delete(id);
+    setAnalyses(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setRedactionSuggestions(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (next.length === 0) {
+      reset();
+      return;
+    }
+    updateSources(next);
+  };
+
   const handleOptionChange = (newOptions: Partial<PdfOptions>) => {
     const updated = { ...options, ...newOptions };
     setOptions(updated);
-    if (image && metadata) {
-      processImage(image, metadata.width, metadata.height, updated);
+    // Headers, watermark etc. are applied when the PDF is assembled
+    if (renderOptionsKey(updated) !== renderOptionsKey(options)) {
+      processSources(sources, updated);
     }
   };
 
+  const updatePresets = (next: PdfPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const handleApplyPreset = (preset: PdfPreset) => {
+    handleOptionChange(preset.options);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text());
+      updatePresets(imported.reduce(upsertPreset, presets));
+      setPresetError(null);
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateAiSettings = (patch: Partial<AiSettings>) => {
+    const updated = { ...aiSettings, ...patch };
+    setAiSettings(updated);
+    saveAiSettings(updated);
+  };
+
+  const runAnalysis = async (list: SourceImage[], settings: AiSettings) => {
+    setAnalysisError(null);
+    setAnalyzingIds(prev => [...prev, ...list.map(source => source.id)]);
+    await Promise.all(list.map(async source => {
+      try {
+        const analysis = await analyzeDocument(await redactedDataUrl(source), source.metadata.height, settings);
+        setAnalyses(prev => ({ ...prev, [source.id]: analysis }));
+      } catch (err) {
+        console.error("AI analysis failed", err);
+        setAnalysisError(`分析失败：${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setAnalyzingIds(prev => prev.filter(id => id !== source.id));
+      }
+    }));
+  };
+
+  // Analysis only ever starts from a user action, after consent for the current provider
+  const requestAnalysis = (list: SourceImage[]) => {
+    if (list.length === 0 || aiSettings.provider === AiProvider.Disabled) return;
+    if (hasConsent(aiSettings)) {
+      runAnalysis(list, aiSettings);
+    } else {
+      setPendingAnalysis(list);
+    }
+  };
+
+  const acceptAnalysis = () => {
+    const list = pendingAnalysis ?? [];
+    const settings = { ...aiSettings, consentedTo: analysisDestination(aiSettings) };
+    updateAiSettings(settings);
+    setPendingAnalysis(null);
+    runAnalysis(list, settings);
+  };
+
+  const handleSuggestHeadings = () => {
+    requestAnalysis(sources.filter(source => !analyses[source.id]));
+  };
+
+  // Uses the AI's safe cuts and section starts as page breaks and the sections as bookmarks
+  const applyAnalysis = (source: SourceImage, analysis: DocumentAnalysis) => {
+    setAnalysisError(null);
+    const layout = tryLayout(() => getPageLayout(options, source.metadata.width), null,
+      message => setAnalysisError(`无法应用分析结果：${message}`));
+    if (!layout) return;
+    const candidates = [...analysis.safeCuts, ...analysis.sections.map(section => section.y)];
+    updateSource(source.id, {
+      breaks: planFromCandidates(candidates, source.metadata.height, layout.segmentHeightPx),
+      bookmarks: analysis.sections
+    });
+  };
+
+  // OCR of the unredacted source, cached until the image changes
+  const recognizeCached = async (source: SourceImage, onProgress: (progress: number) => void) => {
+    let cached = ocrCacheRef.current.get(source.id);
+    if (!cached || cached.dataUrl !== source.dataUrl) {
+      cached = { dataUrl: source.dataUrl, words: await recognizeSource(source, onProgress) };
+      ocrCacheRef.current.set(source.id, cached);
+    }
+    return cached.words;
+  };
+
+  // Adds the OCR text layer of the given sources when the PDF is searchable
+  const withTextLayer = async (list: ProcessedPage[], sourceList: SourceImage[], searchable: boolean) => {
+    if (!searchable) return list;
+
+    const wordsBySource = new Map<string, OcrWord[]>();
+    for (const [idx, source] of sourceList.entries()) {
+      setOcrProgress(idx / sourceList.length);
+      const words = await recognizeCached(source, (progress) => setOcrProgress((idx + progress) / sourceList.length));
+      wordsBySource.set(source.id, withoutRedactedWords(words, source.redactions ?? []));
+    }
+    return applyTextLayer(list, wordsBySource);
+  };
+
+  const handleDetectPii = async (source: SourceImage) => {
+    setDetectProgress(0);
+    setDetectError(null);
+    try {
+      const words = await recognizeCached(source, setDetectProgress);
+      // Skip what is already covered
+      const found = detectPii(withoutRedactedWords(words, source.redactions ?? []));
+      setRedactionSuggestions(prev => ({ ...prev, [source.id]: found }));
+    } catch (err) {
+      console.error("PII detection failed", err);
+      setDetectError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDetectProgress(null);
+    }
+  };
+
+  // Document info written with the PDF of the given sources
+  const pdfContext = (list: SourceImage[]): PdfContext => {
+    const name = baseName(list[0].metadata.name);
+    return {
+      filename: list[0].metadata.name,
+      properties: { ...properties, title: properties.title || name },
+      bookmarks: collectBookmarks(list, list.length > 1)
+    };
+  };
+  // The size search runs in a stable callback, so it reads these through refs
+  pdfContextRef.current = pdfContext;
+  withTextLayerRef.current = withTextLayer;
+
   const handleDownload = async () => {
+    if (pages.length === 0) return;
+    const name = baseName(sources[0].metadata.name);
+    const separate = batchMode === BatchMode.Separate && sources.length > 1;
+    // Several PDFs are bundled in a ZIP like page images
+    const file = EXPORT_FILES[separate && exportTarget === ExportTarget.Pdf ? ExportTarget.Images : exportTarget];
+
+    // Opened first: the save dialog has to follow the click directly
+    let sink: ExportSink;
+    try {
+      sink = await openDownloadSink(`${name}${file.extension}`, file.mimeType);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) console.error("Could not open output file", err);
+      return;
+    }
+
+    setIsGenerating(true);
+    setExportError(null);
+    try {
+      const context = pdfContext(sources);
+      if (exportTarget === ExportTarget.Images) {
+        await exportImages(sink, pages, sources, { format: imageFormat, quality: options.quality, perSource: separate });
+      } else if (exportTarget === ExportTarget.Html) {
+        await exportHtml(sink, pages, options, context);
+      } else {
+        const output = await withTextLayer(pages, sources, options.searchable);
+        setOcrProgress(null);
+        if (separate) {
+          await exportPdfPerSource(sink, output, sources, options, properties);
+        } else {
+          await exportPdf(sink, output, options, context);
+        }
+      }
+      await sink.close();
+      setFinalSize(sink.bytesWritten());
+      setFinalSizeTarget(exportTarget === ExportTarget.Pdf && !separate ? options.targetSizeMb : null);
+    } catch (err) {
+      console.error("Export failed", err);
+      setExportError(err instanceof Error ? err.message : String(err));
+      await sink.abort().catch(() => {});
+    } finally {
+      setOcrProgress(null);
+      setIsGenerating(false);
+    }
+  };
+
+  // Builds the PDF as downloaded (without the OCR layer, which paper does not need) and prints it
+  const handlePrint = async () => {
     if (pages.length === 0) return;
     setIsGenerating(true);
+    setExportError(null);
     try {
-      const blob = await createPdfBlob(pages, options);
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${metadata?.name.split('.')[0] || 'document'}.pdf`;
-      link.click();
-      URL.revokeObjectURL(url);
+      printPdf(await createPdfBlob(pages, options, pdfContext(sources)));
     } catch (err) {
-      console.error("PDF generation failed", err);
+      console.error("Printing failed", err);
+      setExportError(err instanceof Error ? err.message : String(err));
     } finally {
       setIsGenerating(false);
     }
   };
 
+  // Replaces the sources with the long image stitched from them, in list order
+  const handleStitch = async () => {
+    if (!stitchSeams) return;
+    setIsStitching(true);
+    setStitchError(null);
+    try {
+      const stitched = await stitchCaptures(sources, stitchSeams);
+      for (const source of sources) {
+        pageCacheRef.current.delete(source.id);
+        ocrCacheRef.current.delete(source.id);
+      }
+      setAnalyses({});
+      setRedactionSuggestions({});
+      setEditingSourceId(null);
+      setPreviewMode('pages');
+      updateSources([stitched]);
+    } catch (err) {
+      console.error("Stitching failed", err);
+      setStitchError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsStitching(false);
+    }
+  };
+
   const reset = () => {
-    setImage(null);
-    setMetadata(null);
+    runRef.current++;
+    abortRef.current?.abort();
+    setProgress(null);
+    pageCacheRef.current.clear();
+    ocrCacheRef.current.clear();
+    clearSession();
+    setSources([]);
+    setSizeFit(null);
+    setFinalSize(null);
+    setPreviewMode('pages');
+    setEditingSourceId(null);
     setPages([]);
-    setAiAnalysis('');
+    setIsProcessing(false);
+    setAnalyses({});
+    setAnalysisError(null);
+    setRedactionSuggestions({});
+    setDetectError(null);
   };
 
+  const hasSources = sources.length > 0;
+  const downloadLabel = exportTarget === ExportTarget.Images
+    ? '下载图片 ZIP'
+    : exportTarget === ExportTarget.Html
+    ? '下载 HTML'
+    : batchMode === BatchMode.Separate && sources.length > 1 ? '下载 ZIP' : '下载 PDF';
+  const sourceIndex = new Map<string, number>(sources.map((source, idx) => [source.id, idx]));
+  const editingSource = sources.find(source => source.id === editingSourceId) ?? sources[0];
+  const editingAnalysis = editingSource ? analyses[editingSource.id] : undefined;
+  const editingSegmentHeight = editingSource
+    ? tryLayout(() => getPageLayout(options, editingSource.metadata.width).segmentHeightPx, null)
+    : null;
+  const sheets = tryLayout(() => layoutSheets(pages, options), []);
+  const layoutLimits = getLayoutLimits(options);
+  const minCustomSize = options.customUnit === 'in'
+    ? Math.ceil(MIN_CUSTOM_PAPER_MM / 25.4 * 10) / 10
+    : MIN_CUSTOM_PAPER_MM;
+
+  useEffect(() => {
+    if (previewMode !== 'cleanup' || !editingSource) return;
+    let cancelled = false;
+    setCleanupView(null);
+    getSourceView(editingSource, options)
+      .then(view => !cancelled && setCleanupView(view))
+      .catch(err => console.error("Cleanup detection failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [previewMode, editingSource, options.cleanup]);
+
+  useEffect(() => {
+    if (previewMode !== 'stitch') return;
+    let cancelled = false;
+    const controller = new AbortController();
+    setStitchSeams(null);
+    setStitchError(null);
+    detectSeams(sources, { signal: controller.signal })
+      .then(seams => {
+        if (cancelled) return;
+        setStitchSeams(seams);
+        setDetectedSeams(seams);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Overlap detection failed", err);
+        setStitchError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [previewMode, sources]);
+  const suggestedTitles = [...new Set(
+    sources.flatMap(source => analyses[source.id]?.sections.map(section => section.title) ?? [])
+  )];
+  // Breaks currently in effect for the edited source, as produced by the last run
+  const editingBreaks = editingSource
+    ? pages.filter(page => page.sourceId === editingSource.id).slice(1).map(page => page.sourceY)
+    : [];
+
   return (
-    <div className="min-h-screen bg-slate-50 text-slate-900 pb-20">
+    <div
+      className="min-h-screen bg-slate-50 text-slate-900 pb-20"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDraggingFiles(false);
+      }}
+      onDrop={handleDrop}
+    >
       {/* Header */}
       <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-slate-200 px-6 py-4 flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -119,15 +722,43 @@ const App: React.FC = () => {
           <h1 className="text-xl font-bold tracking-tight text-slate-800">长图转PDF</h1>
         </div>
         <div className="flex items-center gap-4">
-          {image && (
+          {hasSources && (
             <button 
               onClick={reset}
               className="p-2 hover:bg-red-50 text-red-500 rounded-full transition-colors"
-              title="清除当前图片"
+              title="清除全部图片"
             >
               <Trash2 className="w-5 h-5" />
             </button>
           )}
+          <div className="flex items-center gap-2">
+            <select
+              value={exportTarget}
+              onChange={(e) => setExportTarget(e.target.value as ExportTarget)}
+              className="px-3 py-2 text-sm rounded-full border border-slate-200 bg-white text-slate-600"
+              title="导出格式"
+            >
+              {EXPORT_TARGETS.map(item => <option key={item.key} value={item.key}>{item.label}</option>)}
+            </select>
+            {exportTarget === ExportTarget.Images && (
+              <select
+                value={imageFormat}
+                onChange={(e) => setImageFormat(e.target.value as ImageExportFormat)}
+                className="px-3 py-2 text-sm rounded-full border border-slate-200 bg-white text-slate-600"
+                title="图片格式"
+              >
+                {IMAGE_EXPORT_FORMATS.map(item => <option key={item.key} value={item.key}>{item.label}</option>)}
+              </select>
+            )}
+          </div>
+          <button
+            disabled={pages.length === 0 || isGenerating}
+            onClick={handlePrint}
+            className="p-2.5 rounded-full border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:text-slate-300 disabled:cursor-not-allowed transition-colors"
+            title="打印"
+          >
+            <Printer className="w-5 h-5" />
+          </button>
           <button 
             disabled={pages.length === 0 || isGenerating}
             onClick={handleDownload}
@@ -138,40 +769,98 @@ const App: React.FC = () => {
             }`}
           >
             {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
-            {isGenerating ? '生成中...' : '下载 PDF'}
+            {ocrProgress !== null
+              ? `识别文字 ${Math.round(ocrProgress * 100)}%`
+              : isGenerating ? '生成中...' : downloadLabel}
           </button>
         </div>
       </header>
 
+      <input 
+        type="file" 
+        ref={fileInputRef}
+        onChange={handleFileUpload}
+        accept={IMPORT_ACCEPT}
+        multiple
+        className="hidden"
+      />
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-8">
-        {!image ? (
+        {importErrors.length > 0 && (
+          <div className="mb-6 max-w-2xl mx-auto bg-red-50 border border-red-200 rounded-2xl p-4 flex items-start gap-3 text-sm text-red-700">
+            <TriangleAlert className="w-5 h-5 shrink-0" />
+            <ul className="flex-1 min-w-0 space-y-1">
+              {importErrors.map((error, idx) => <li key={idx} className="break-words">{error}</li>)}
+            </ul>
+            <button onClick={() => setImportErrors([])} className="p-0.5 text-red-400 hover:text-red-600" title="关闭">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {processError && (
+          <div className="mb-6 max-w-2xl mx-auto bg-red-50 border border-red-200 rounded-2xl p-4 flex items-start gap-3 text-sm text-red-700">
+            <TriangleAlert className="w-5 h-5 shrink-0" />
+            <p className="flex-1 min-w-0 break-words">无法生成页面：{processError}</p>
+          </div>
+        )}
+        {exportError && (
+          <div className="mb-6 max-w-2xl mx-auto bg-red-50 border border-red-200 rounded-2xl p-4 flex items-start gap-3 text-sm text-red-700">
+            <TriangleAlert className="w-5 h-5 shrink-0" />
+            <p className="flex-1 min-w-0 break-words">导出失败：{exportError}</p>
+            <button onClick={() => setExportError(null)} className="p-0.5 text-red-400 hover:text-red-600" title="关闭">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {!hasSources ? (
           /* Empty State / Uploader */
           <div className="max-w-2xl mx-auto text-center mt-20">
-            <div className="bg-white rounded-3xl p-12 border-2 border-dashed border-slate-300 shadow-sm hover:border-blue-400 transition-colors group">
+            {savedSession && (
+              <div className="mb-6 bg-white rounded-2xl border border-blue-200 shadow-sm p-4 flex items-center gap-4 text-left">
+                <History className="w-6 h-6 text-blue-600 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-slate-700">发现上次未完成的工作</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {savedSession.sources.length} 张图片 · {new Date(savedSession.savedAt).toLocaleString('zh-CN')} 自动保存
+                  </p>
+                </div>
+                <button
+                  onClick={dismissSession}
+                  className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-700 rounded-lg transition-colors"
+                >
+                  丢弃
+                </button>
+                <button
+                  onClick={restoreSession}
+                  className="px-4 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  恢复
+                </button>
+              </div>
+            )}
+            <div className={`bg-white rounded-3xl p-12 border-2 border-dashed shadow-sm hover:border-blue-400 transition-colors group ${
+              isDraggingFiles ? 'border-blue-500 bg-blue-50/50' : 'border-slate-300'
+            }`}>
               <div className="bg-blue-50 w-20 h-20 rounded-2xl flex items-center justify-center mx-auto mb-6 group-hover:scale-110 transition-transform">
                 <FileUp className="w-10 h-10 text-blue-600" />
               </div>
               <h2 className="text-2xl font-bold mb-2">上传您的长图</h2>
               <p className="text-slate-500 mb-8">
-                自动将长截图、网页截图或文档图片转换为可完美打印的多页 PDF 文件。
+                自动将长截图、网页截图或文档图片转换为可完美打印的多页 PDF 文件。支持多选、拖入或 Ctrl+V 粘贴截图，也支持 HEIC、AVIF、多页 TIFF 和 PDF。
               </p>
-              <input 
-                type="file" 
-                ref={fileInputRef}
-                onChange={handleFileUpload}
-                accept="image/*"
-                className="hidden"
-              />
               <button 
                 onClick={() => fileInputRef.current?.click()}
                 className="bg-slate-900 text-white px-8 py-3 rounded-xl font-medium hover:bg-slate-800 transition-colors"
               >
                 选择图片
               </button>
+              <div className="mt-6 max-w-sm mx-auto">
+                <UrlImport onImport={addUrl} />
+              </div>
             </div>
             <div className="mt-12 grid grid-cols-3 gap-6">
               {[
-                { icon: Printer, title: '打印就绪', desc: '适配 A4/Letter 纸张' },
+                { icon: Printer, title: '打印就绪', desc: '小册子拼版与装订线，直接打印' },
                 { icon: FileText, title: '自动分页', desc: '智能切分长图内容' },
                 { icon: Sparkles, title: 'AI 增强', desc: '智能内容结构分析' }
               ].map((item, idx) => (
@@ -188,6 +877,14 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
             {/* Left: Settings */}
             <aside className="lg:col-span-3 space-y-6">
+              <SourceList
+                sources={sources}
+                onReorder={handleReorder}
+                onRemove={handleRemove}
+                onAdd={() => fileInputRef.current?.click()}
+              />
+              <UrlImport onImport={addUrl} />
+
               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
                   <Settings className="w-4 h-4 text-slate-600" />
@@ -196,22 +893,75 @@ const App: React.FC = () => {
                 <div className="p-6 space-y-6">
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-2">页面尺寸</label>
-                    <div className="grid grid-cols-1 gap-2">
+                    <div className="grid grid-cols-2 gap-2">
                       {Object.values(PageSize).map(size => (
                         <button
                           key={size}
                           onClick={() => handleOptionChange({ pageSize: size })}
-                          className={`px-4 py-2 text-sm rounded-lg border transition-all text-left flex items-center justify-between ${
+                          className={`px-3 py-2 text-sm rounded-lg border transition-all text-left flex items-center justify-between ${
                             options.pageSize === size 
                             ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold' 
                             : 'border-slate-200 hover:border-slate-300'
                           }`}
                         >
-                          {size}
-                          {options.pageSize === size && <CheckCircle2 className="w-4 h-4" />}
+                          {PAGE_SIZE_LABELS[size] ?? size}
+                          {options.pageSize === size && <CheckCircle2 className="w-4 h-4 shrink-0" />}
                         </button>
                       ))}
                     </div>
+                    {options.pageSize === PageSize.Custom && (
+                      <div className="mt-3 flex items-center gap-1.5">
+                        <input
+                          type="number"
+                          min={minCustomSize}
+                          step={options.customUnit === 'in' ? 0.1 : 1}
+                          value={options.customWidth}
+                          onChange={(e) => {
+                            const customWidth = parseFloat(e.target.value);
+                            if (customWidth > 0) handleOptionChange({ customWidth });
+                          }}
+                          onBlur={() => {
+                            if (options.customWidth < minCustomSize) handleOptionChange({ customWidth: minCustomSize });
+                          }}
+                          className="w-full min-w-0 px-2 py-1.5 text-sm rounded-lg border border-slate-200"
+                          title="宽度"
+                        />
+                        <span className="text-slate-400 text-sm">×</span>
+                        <input
+                          type="number"
+                          min={minCustomSize}
+                          step={options.customUnit === 'in' ? 0.1 : 1}
+                          value={options.customHeight}
+                          onChange={(e) => {
+                            const customHeight = parseFloat(e.target.value);
+                            if (customHeight > 0) handleOptionChange({ customHeight });
+                          }}
+                          onBlur={() => {
+                            if (options.customHeight < minCustomSize) handleOptionChange({ customHeight: minCustomSize });
+                          }}
+                          className="w-full min-w-0 px-2 py-1.5 text-sm rounded-lg border border-slate-200"
+                          title="高度"
+                        />
+                        <select
+                          value={options.customUnit}
+                          onChange={(e) => {
+                            const customUnit = e.target.value as LengthUnit;
+                            // Keep the physical size when switching units
+                            const factor = customUnit === 'in' ? 1 / 25.4 : 25.4;
+                            const round = (value: number) => Math.round(value * factor * 100) / 100;
+                            handleOptionChange({
+                              customUnit,
+                              customWidth: round(options.customWidth),
+                              customHeight: round(options.customHeight)
+                            });
+                          }}
+                          className="px-1.5 py-1.5 text-sm rounded-lg border border-slate-200 bg-white"
+                        >
+                          <option value="mm">mm</option>
+                          <option value="in">in</option>
+                        </select>
+                      </div>
+                    )}
                   </div>
 
                   <div>
@@ -236,6 +986,30 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {sources.length > 1 && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">多图输出</label>
+                      <div className="flex gap-2 p-1 bg-slate-100 rounded-xl">
+                        {[
+                          { key: BatchMode.Merge, label: '合并为一个 PDF' },
+                          { key: BatchMode.Separate, label: '每图一个 (ZIP)' }
+                        ].map(mode => (
+                          <button
+                            key={mode.key}
+                            onClick={() => setBatchMode(mode.key)}
+                            className={`flex-1 py-2 text-xs font-medium rounded-lg transition-all ${
+                              batchMode === mode.key 
+                              ? 'bg-white text-blue-600 shadow-sm' 
+                              : 'text-slate-500 hover:text-slate-700'
+                            }`}
+                          >
+                            {mode.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <div className="flex justify-between mb-2">
                       <label className="text-sm font-medium text-slate-700">页边距 (mm)</label>
@@ -244,7 +1018,7 @@ const App: React.FC = () => {
                     <input 
                       type="range" 
                       min="0" 
-                      max="50" 
+                      max={Math.min(OPTION_LIMITS.margin.max, Math.floor(layoutLimits.maxMargin / 5) * 5)}
                       step="5"
                       value={options.margin}
                       onChange={(e) => handleOptionChange({ margin: parseInt(e.target.value) })}
@@ -259,69 +1033,402 @@ const App: React.FC = () => {
                     </div>
                     <input 
                       type="range" 
-                      min="0.1" 
-                      max="1" 
+                      min={OPTION_LIMITS.quality.min}
+                      max={OPTION_LIMITS.quality.max}
                       step="0.1"
                       value={options.quality}
                       onChange={(e) => handleOptionChange({ quality: parseFloat(e.target.value) })}
-                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                      disabled={options.targetSizeMb !== null}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600 disabled:opacity-40"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">输出分辨率</label>
+                    <div className="flex gap-1.5">
+                      {[null, ...DPI_PRESETS].map(dpi => (
+                        <button
+                          key={dpi ?? 'original'}
+                          onClick={() => handleOptionChange({ dpi })}
+                          className={`flex-1 py-1.5 text-xs rounded-lg border transition-all ${
+                            options.dpi === dpi 
+                            ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold' 
+                            : 'border-slate-200 hover:border-slate-300'
+                          }`}
+                        >
+                          {dpi === null ? '原始' : `${dpi} DPI`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-slate-700">目标文件大小</label>
+                      <Toggle
+                        checked={options.targetSizeMb !== null}
+                        onChange={(enabled) => handleOptionChange({ targetSizeMb: enabled ? TARGET_SIZE_PRESETS[1] : null })}
+                        title="自动调整质量和分辨率以满足大小限制"
+                      />
+                    </div>
+                    {options.targetSizeMb !== null && (
+                      <div className="space-y-2">
+                        <div className="flex gap-1.5">
+                          {TARGET_SIZE_PRESETS.map(mb => (
+                            <button
+                              key={mb}
+                              onClick={() => handleOptionChange({ targetSizeMb: mb })}
+                              className={`flex-1 py-1.5 text-xs rounded-lg border transition-all ${
+                                options.targetSizeMb === mb 
+                                ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold' 
+                                : 'border-slate-200 hover:border-slate-300'
+                              }`}
+                            >
+                              {mb} MB
+                            </button>
+                          ))}
+                          <input
+                            type="number"
+                            min="0.5"
+                            step="0.5"
+                            value={options.targetSizeMb}
+                            onChange={(e) => {
+                              const mb = parseFloat(e.target.value);
+                              if (mb >= OPTION_LIMITS.targetSizeMb.min) handleOptionChange({ targetSizeMb: mb });
+                            }}
+                            className="w-16 px-2 py-1 text-xs rounded-lg border border-slate-200"
+                            title="自定义大小 (MB)"
+                          />
+                        </div>
+                        {sizeFit && (
+                          <p className={`text-xs ${sizeFit.fits ? 'text-slate-400' : 'text-amber-600'}`}>
+                            {sizeFit.fits ? '已选用' : '无法满足目标，已使用最小设置'}：质量 {Math.round(sizeFit.quality * 100)}% · 分辨率 {Math.round(sizeFit.scale * 100)}%
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">图像编码</label>
+                    <div className="grid grid-cols-3 gap-1.5">
+                      {[
+                        { key: PageEncoding.Auto, label: '自动' },
+                        { key: PageEncoding.Jpeg, label: 'JPEG' },
+                        { key: PageEncoding.Png, label: 'PNG 无损' },
+                        { key: PageEncoding.Grayscale, label: '灰度' },
+                        { key: PageEncoding.BlackWhite, label: '黑白' }
+                      ].map(item => (
+                        <button
+                          key={item.key}
+                          onClick={() => handleOptionChange({ encoding: item.key })}
+                          className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                            options.encoding === item.key 
+                            ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold' 
+                            : 'border-slate-200 hover:border-slate-300'
+                          }`}
+                        >
+                          {item.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-slate-700">智能分页</label>
+                      <Toggle
+                        checked={options.smartSplit}
+                        onChange={(smartSplit) => handleOptionChange({ smartSplit })}
+                        title="在文字行之间的空白处分页"
+                      />
+                    </div>
+                    {options.smartSplit && (
+                      <>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-xs text-slate-500">搜索范围</span>
+                          <span className="text-xs text-slate-400">{Math.round(options.splitTolerance * 100)}%</span>
+                        </div>
+                        <input 
+                          type="range" 
+                          min={OPTION_LIMITS.splitTolerance.min}
+                          max={OPTION_LIMITS.splitTolerance.max}
+                          step="0.05"
+                          value={options.splitTolerance}
+                          onChange={(e) => handleOptionChange({ splitTolerance: parseFloat(e.target.value) })}
+                          className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                        />
+                      </>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-slate-700">可搜索 PDF (OCR)</label>
+                      <Toggle
+                        checked={options.searchable}
+                        onChange={(searchable) => handleOptionChange({ searchable })}
+                        title="本地识别中英文并嵌入隐藏文字层"
+                      />
+                    </div>
+                    {options.searchable && (
+                      <p className="mt-2 text-xs text-slate-400">下载时在本地识别文字，支持中文和英文，图片不会上传。</p>
+                    )}
+                  </div>
                 </div>
               </div>
 
+              <PresetPanel
+                presets={presets}
+                onApply={handleApplyPreset}
+                onSave={(name) => updatePresets(upsertPreset(presets, { name, options }))}
+                onDelete={(name) => updatePresets(presets.filter(preset => preset.name !== name))}
+                onExport={() => downloadBlob(exportPresets(presets), 'longimg2pdf-presets.json')}
+                onImport={handleImportPresets}
+                importError={presetError}
+              />
+
+              <LayoutSettings options={options} maxColumnGap={layoutLimits.maxColumnGap} onChange={handleOptionChange} />
+
+              <PosterSettings
+                poster={options.poster}
+                margin={options.margin}
+                layout={sources[0] ? tryLayout(() => getPosterLayout(options, sources[0].metadata.width, sources[0].metadata.height), null) : null}
+                onChange={(poster) => handleOptionChange({ poster })}
+              />
+
+              <PrintSettings print={options.print} onChange={(print) => handleOptionChange({ print })} />
+
+              <CleanupSettings
+                cleanup={options.cleanup}
+                onChange={(cleanup) => handleOptionChange({ cleanup })}
+                onPreview={() => setPreviewMode('cleanup')}
+              />
+
+              <DecorationSettings options={options} onChange={handleOptionChange} />
+
+              <DocumentPropertiesPanel
+                properties={properties}
+                onPropertiesChange={setProperties}
+                pageLabels={options.pageLabels}
+                onPageLabelsChange={(pageLabels) => handleOptionChange({ pageLabels })}
+                pageLabelsDisabled={options.print.layout === PrintLayout.Booklet}
+                suggestedTitles={suggestedTitles}
+                isSuggesting={analyzingIds.length > 0}
+                onSuggest={aiSettings.provider !== AiProvider.Disabled ? handleSuggestHeadings : undefined}
+              />
+
               {/* AI Insights Card */}
               <div className="bg-gradient-to-br from-indigo-50 to-blue-50 rounded-2xl p-6 border border-blue-100">
                 <div className="flex items-center gap-2 mb-3 text-blue-700">
                   <Sparkles className="w-5 h-5" />
                   <h3 className="font-bold">AI 洞察</h3>
                 </div>
-                {aiAnalysis ? (
-                  <p className="text-sm text-blue-800/80 leading-relaxed italic">
-                    "{aiAnalysis}"
-                  </p>
-                ) : (
-                  <div className="flex items-center gap-2 text-blue-400 text-sm">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    正在分析内容...
-                  </div>
-                )}
+                <AiSettingsPanel settings={aiSettings} onChange={updateAiSettings} />
+                <div className="mt-4 pt-4 border-t border-blue-100">
+                  {aiSettings.provider === AiProvider.Disabled ? (
+                    <p className="text-xs text-blue-800/60">AI 分析已关闭，图片不会发送到任何服务。</p>
+                  ) : editingSource && editingAnalysis ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-blue-800/80 leading-relaxed italic">
+                        "{editingAnalysis.summary}"
+                      </p>
+                      {editingAnalysis.sections.length > 0 && (
+                        <ul className="text-xs text-blue-800/70 space-y-1 max-h-40 overflow-y-auto">
+                          {editingAnalysis.sections.map(section => (
+                            <li key={`${section.y}-${section.title}`} className="truncate">• {section.title}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {(editingAnalysis.safeCuts.length > 0 || editingAnalysis.sections.length > 0) && (
+                        <button
+                          onClick={() => applyAnalysis(editingSource, editingAnalysis)}
+                          className="w-full flex items-center justify-center gap-1.5 py-2 text-xs font-semibold rounded-lg bg-white text-blue-700 border border-blue-200 hover:bg-blue-100 transition-all"
+                          title="按 AI 建议的分割位置设置分页线，并把章节设为书签"
+                        >
+                          <Scissors className="w-3.5 h-3.5" />
+                          应用为分页方案
+                        </button>
+                      )}
+                    </div>
+                  ) : editingSource && !analyzingIds.includes(editingSource.id) ? (
+                    <button
+                      onClick={() => requestAnalysis([editingSource])}
+                      className="text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      分析当前图片
+                    </button>
+                  ) : (
+                    <div className="flex items-center gap-2 text-blue-400 text-sm">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      正在分析内容...
+                    </div>
+                  )}
+                  {analysisError && (
+                    <p className="mt-2 text-xs text-red-500">{analysisError}</p>
+                  )}
+                </div>
               </div>
             </aside>
 
             {/* Right: Preview */}
             <section className="lg:col-span-9 space-y-6">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex gap-2 p-1 bg-slate-100 rounded-xl">
+                  {[
+                    { key: 'pages' as const, label: '页面预览' },
+                    { key: 'breaks' as const, label: '分页编辑' },
+                    { key: 'redact' as const, label: '敏感信息遮盖' },
+                    { key: 'cleanup' as const, label: '截图清理' },
+                    ...(sources.length > 1 ? [{ key: 'stitch' as const, label: '拼接截图' }] : [])
+                  ].map(tab => (
+                    <button
+                      key={tab.key}
+                      onClick={() => setPreviewMode(tab.key)}
+                      className={`px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+                        previewMode === tab.key 
+                        ? 'bg-white text-blue-600 shadow-sm' 
+                        : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+                {previewMode !== 'pages' && previewMode !== 'stitch' && sources.length > 1 && (
+                  <select
+                    value={editingSource?.id}
+                    onChange={(e) => setEditingSourceId(e.target.value)}
+                    className="px-3 py-2 text-sm rounded-lg border border-slate-200 bg-white max-w-xs"
+                  >
+                    {sources.map((source, idx) => (
+                      <option key={source.id} value={source.id}>{idx + 1}. {source.metadata.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
               <div className="bg-slate-200 rounded-2xl p-8 min-h-[600px] flex flex-col items-center gap-12 shadow-inner overflow-y-auto max-h-[80vh]">
-                {isProcessing ? (
+                {previewMode === 'breaks' && editingSource && editingSegmentHeight !== null ? (
+                  <BreakEditor
+                    source={editingSource}
+                    breaks={editingBreaks}
+                    segmentHeightPx={editingSegmentHeight}
+                    columns={options.columns}
+                    suggestedTitles={suggestedTitles}
+                    onChange={(patch: Partial<SourceImage>) => updateSource(editingSource.id, patch)}
+                  />
+                ) : previewMode === 'stitch' && sources.length > 1 ? (
+                  <StitchReview
+                    captures={sources}
+                    seams={stitchSeams}
+                    detectedSeams={detectedSeams}
+                    error={stitchError}
+                    isStitching={isStitching}
+                    onChange={setStitchSeams}
+                    onStitch={handleStitch}
+                  />
+                ) : previewMode === 'cleanup' && editingSource ? (
+                  <CleanupPreview source={editingSource} view={cleanupView} />
+                ) : previewMode === 'redact' && editingSource ? (
+                  <RedactionEditor
+                    source={editingSource}
+                    suggestions={redactionSuggestions[editingSource.id] ?? []}
+                    detectProgress={detectProgress}
+                    error={detectError}
+                    onDetect={() => handleDetectPii(editingSource)}
+                    onSuggestionsChange={(next: RedactionSuggestion[]) =>
+                      setRedactionSuggestions(prev => ({ ...prev, [editingSource.id]: next }))}
+                    onChange={(redactions: Redaction[]) => updateSource(editingSource.id, { redactions })}
+                  />
+                ) : isProcessing ? (
                   <div className="flex flex-col items-center justify-center h-full gap-4 text-slate-500">
                     <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
                     <p className="font-medium">正在分割文档页面...</p>
+                    {fitStep && (
+                      <p className="text-xs">
+                        正在尝试：质量 {Math.round(fitStep.quality * 100)}% · 分辨率 {Math.round(fitStep.scale * 100)}%
+                      </p>
+                    )}
+                    {progress && (
+                      <div className="w-64 space-y-2">
+                        <div className="h-2 bg-slate-300 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600 transition-all"
+                            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-center">
+                          {progress.sources > 1 && `第 ${progress.source + 1}/${progress.sources} 张图 · `}
+                          {progress.done}/{progress.total} 页
+                        </p>
+                      </div>
+                    )}
+                    <button
+                      onClick={cancelProcessing}
+                      className="px-4 py-1.5 text-sm rounded-lg border border-slate-300 hover:bg-white transition-colors"
+                    >
+                      取消
+                    </button>
                   </div>
                 ) : (
-                  pages.map((page, idx) => (
-                    <div key={idx} className="relative group">
-                      <div className="absolute -top-6 left-0 flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-widest">
-                        <span>第 {idx + 1} 页</span>
-                        <ChevronRight className="w-3 h-3" />
-                        <span>{options.pageSize}</span>
-                      </div>
-                      <div className="bg-white shadow-2xl transition-transform duration-300 group-hover:scale-[1.01]">
-                        <img 
-                          src={page.dataUrl} 
-                          alt={`第 ${idx + 1} 页`}
-                          className="max-w-full h-auto block"
-                          style={{
-                            width: options.orientation === Orientation.Portrait ? '595px' : '842px'
-                          }}
-                        />
+                  sheets.map((sheet, idx) => {
+                    const previewWidth = Math.min(MAX_PREVIEW_WIDTH, sheet.widthMm * PREVIEW_PX_PER_MM);
+                    const sheetSources = [...new Set(sheet.placements.map(({ page }) => (sourceIndex.get(page.sourceId) ?? 0) + 1))];
+                    return (
+                      <div key={idx} className="relative group">
+                        <div className="absolute -top-6 left-0 flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-widest">
+                          <span>第 {idx + 1} 页</span>
+                          <ChevronRight className="w-3 h-3" />
+                          <span>{PAGE_SIZE_LABELS[options.pageSize] ?? options.pageSize}</span>
+                          {sources.length > 1 && (
+                            <>
+                              <ChevronRight className="w-3 h-3" />
+                              <span>图 {sheetSources.join('、')}</span>
+                            </>
+                          )}
+                        </div>
+                        <div
+                          className="relative bg-white shadow-2xl transition-transform duration-300 group-hover:scale-[1.01]"
+                          style={{ width: previewWidth, height: previewWidth * (sheet.heightMm / sheet.widthMm) }}
+                        >
+                          {sheet.placements.map((placement, placementIdx) => {
+                            const visibleHeight = placement.visibleHeight ?? placement.height;
+                            return (
+                              <div
+                                key={placementIdx}
+                                className="absolute overflow-hidden"
+                                style={{
+                                  left: `${(placement.x / sheet.widthMm) * 100}%`,
+                                  top: `${(placement.y / sheet.heightMm) * 100}%`,
+                                  width: `${(placement.width / sheet.widthMm) * 100}%`,
+                                  height: `${(visibleHeight / sheet.heightMm) * 100}%`
+                                }}
+                              >
+                                <img
+                                  src={placement.page.dataUrl}
+                                  alt={`第 ${idx + 1} 页`}
+                                  className="block w-full max-w-none"
+                                  style={{ height: `${(placement.height / visibleHeight) * 100}%` }}
+                                />
+                              </div>
+                            );
+                          })}
+                        </div>
                       </div>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
               
               <div className="flex justify-center text-slate-500 text-sm italic">
-                共 {pages.length} 页 • 源图尺寸 {metadata?.width}x{metadata?.height}px
+                共 {sheets.length} 页 • {sources.length > 1
+                  ? `${sources.length} 张源图`
+                  : `源图尺寸 ${sources[0].metadata.width}x${sources[0].metadata.height}px`}
+                {pages.length > 0 && ` • 预计 ${formatBytes(estimatePdfSize(pages))}`}
+                {finalSize !== null && ` • 实际 ${formatBytes(finalSize)}`}
+                {finalSize !== null && finalSizeTarget !== null && finalSize > finalSizeTarget * 1024 * 1024 && (
+                  <span className="not-italic text-amber-600">&nbsp;• 超出目标 {finalSizeTarget} MB</span>
+                )}
               </div>
             </section>
           </div>
@@ -329,7 +1436,7 @@ const App: React.FC = () => {
       </main>
 
       {/* Floating Action for Mobile */}
-      {image && !isProcessing && (
+      {hasSources && !isProcessing && (
         <div className="fixed bottom-6 right-6 lg:hidden">
            <button 
             onClick={handleDownload}
@@ -339,6 +1446,15 @@ const App: React.FC = () => {
           </button>
         </div>
       )}
+
+      {pendingAnalysis && (
+        <AiConsentDialog
+          destination={analysisDestination(aiSettings) ?? ''}
+          imageCount={pendingAnalysis.length}
+          onAccept={acceptAnalysis}
+          onCancel={() => setPendingAnalysis(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+// longimg2pdf: converts long images, or whole directories of them, to PDF
+// with the same options and pipeline as the web app
+import { parseArgs } from 'node:util';
+import { readFile, readdir, stat, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import {
+  convertToPdf, detectSeams, stitchCaptures, withDefaultOptions, parsePresetFile, DEFAULT_PDF_OPTIONS, OPTION_LIMITS,
+  PdfOptions, PageSize, Orientation, PageEncoding, ScaleMode, LastPageMode, PrintLayout, DocumentProperties, OptionRange
+} from '../lib/index';
+import { useNodeBackend, readSourceImage, SUPPORTED_EXTENSIONS } from '../lib/node';
+import { baseName } from '../services/imageService';
+
+// Accepted values of a numeric flag, for the usage text
+const range = ({ min, max }: OptionRange) => (max === Infinity ? `>= ${min}` : `${min}-${max}`);
+
+const USAGE = `Usage: longimg2pdf [options] <image|directory>...
+
+Converts each image to its own PDF, or all of them to one with --merge.
+Directories are expanded to the images they contain, in natural name order.
+
+Output
+  -o, --output <path>      PDF file with --merge, otherwise the output directory
+                           (default: next to each image)
+  -m, --merge              combine all images into one PDF, in argument order
+  -s, --stitch             join overlapping screenshots into one long image first
+                           (implies --merge)
+  -r, --recursive          include images in subdirectories
+      --skip-existing      leave PDFs that already exist untouched
+
+Options (override the preset)
+  -p, --preset <file>      presets file exported from the app, or a PdfOptions JSON object
+      --preset-name <name> preset to use from a file with several (default: the first)
+      --page-size <size>   ${Object.values(PageSize).join(' | ')}
+      --orientation <o>    ${Object.values(Orientation).join(' | ')}
+      --margin <mm>        ${range(OPTION_LIMITS.margin)}
+      --scale <mode>       ${Object.values(ScaleMode).join(' | ')}
+      --last-page <mode>   ${Object.values(LastPageMode).join(' | ')}
+      --columns <n>        ${range(OPTION_LIMITS.columns)}
+      --poster <mm>        print at this width, tiled across sheets with crop marks
+      --overlap <mm>       overlap between poster tiles, ${range(OPTION_LIMITS.posterOverlap)}
+      --booklet            saddle-stitch booklet: two pages per side in folding order
+      --gutter <mm>        extra margin at the binding edge, ${range(OPTION_LIMITS.gutter)}
+      --mirror-margins     alternate the gutter between left and right pages (duplex)
+      --quality <q>        JPEG quality, ${range(OPTION_LIMITS.quality)}
+      --dpi <n>            resample pages to this resolution, ${range(OPTION_LIMITS.dpi)}
+      --encoding <e>       ${Object.values(PageEncoding).join(' | ')}
+      --target-size <MB>   search quality and resolution until the PDF fits
+      --no-smart-split     cut at exact page heights
+      --header <template>  tokens: {page} {total} {filename} {date}
+      --footer <template>
+      --title <text>       document title (default: file name)
+      --author <text>
+      --font <file>        TrueType font with CJK glyphs for headers and footers
+
+  -q, --quiet              only print errors
+  -h, --help`;
+
+class UsageError extends Error {}
+
+function choice<T extends string>(values: T[], value: string | undefined, flag: string): T | undefined {
+  if (value === undefined) return undefined;
+  const match = values.find(item => item.toLowerCase() === value.toLowerCase());
+  if (!match) throw new UsageError(`--${flag} must be one of: ${values.join(', ')}`);
+  return match;
+}
+
+function number(value: string | undefined, flag: string, { min, max }: OptionRange): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new UsageError(`--${flag} must be a number ${max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`}`);
+  }
+  return parsed;
+}
+
+async function loadPreset(file: string, name: string | undefined): Promise<PdfOptions> {
+  const text = await readFile(file, 'utf8');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new UsageError(`${file}: not valid JSON`);
+  }
+  try {
+    if (data && typeof data === 'object' && !Array.isArray(data) && !('format' in data)) {
+      // A plain options object, e.g. written by hand
+      return withDefaultOptions(data as Partial<PdfOptions>);
+    }
+    const presets = parsePresetFile(text);
+    const preset = name === undefined ? presets[0] : presets.find(item => item.name === name);
+    if (!preset) throw new UsageError(`no preset named "${name}"`);
+    return preset.options;
+  } catch (err) {
+    throw new UsageError(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Orders "2.png" before "10.png", as screenshot tools number their files
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+async function expandInputs(paths: string[], recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    const info = await stat(path);
+    if (!info.isDirectory()) {
+      files.push(path);
+      continue;
+    }
+    const entries = (await readdir(path, { withFileTypes: true }))
+      .sort((a, b) => naturalOrder.compare(a.name, b.name));
+    for (const entry of entries) {
+      const child = join(path, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) files.push(...await expandInputs([child], true));
+      } else if (SUPPORTED_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+        files.push(child);
+      }
+    }
+  }
+  return files;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      merge: { type: 'boolean', short: 'm' },
+      stitch: { type: 'boolean', short: 's' },
+      recursive: { type: 'boolean', short: 'r' },
+      'skip-existing': { type: 'boolean' },
+      preset: { type: 'string', short: 'p' },
+      'preset-name': { type: 'string' },
+      'page-size': { type: 'string' },
+      orientation: { type: 'string' },
+      margin: { type: 'string' },
+      scale: { type: 'string' },
+      'last-page': { type: 'string' },
+      columns: { type: 'string' },
+      poster: { type: 'string' },
+      overlap: { type: 'string' },
+      booklet: { type: 'boolean' },
+      gutter: { type: 'string' },
+      'mirror-margins': { type: 'boolean' },
+      quality: { type: 'string' },
+      dpi: { type: 'string' },
+      encoding: { type: 'string' },
+      'target-size': { type: 'string' },
+      'no-smart-split': { type: 'boolean' },
+      header: { type: 'string' },
+      footer: { type: 'string' },
+      title: { type: 'string' },
+      author: { type: 'string' },
+      font: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('no input images given');
+
+  const base = values.preset ? await loadPreset(values.preset, values['preset-name']) : DEFAULT_PDF_OPTIONS;
+  const posterWidth = number(values.poster, 'poster', OPTION_LIMITS.posterWidth);
+  const overlap = number(values.overlap, 'overlap', OPTION_LIMITS.posterOverlap);
+  const gutter = number(values.gutter, 'gutter', OPTION_LIMITS.gutter);
+  const overrides: Partial<PdfOptions> = {
+    pageSize: choice(Object.values(PageSize), values['page-size'], 'page-size'),
+    orientation: choice(Object.values(Orientation), values.orientation, 'orientation'),
+    margin: number(values.margin, 'margin', OPTION_LIMITS.margin),
+    scaleMode: choice(Object.values(ScaleMode), values.scale, 'scale'),
+    lastPage: choice(Object.values(LastPageMode), values['last-page'], 'last-page'),
+    columns: number(values.columns, 'columns', OPTION_LIMITS.columns),
+    quality: number(values.quality, 'quality', OPTION_LIMITS.quality),
+    dpi: number(values.dpi, 'dpi', OPTION_LIMITS.dpi),
+    encoding: choice(Object.values(PageEncoding), values.encoding, 'encoding'),
+    targetSizeMb: number(values['target-size'], 'target-size', OPTION_LIMITS.targetSizeMb),
+    smartSplit: values['no-smart-split'] ? false : undefined,
+    headerTemplate: values.header,
+    footerTemplate: values.footer,
+    poster: posterWidth !== undefined || overlap !== undefined
+      ? {
+        ...base.poster,
+        ...(posterWidth !== undefined ? { enabled: true, widthMm: posterWidth } : {}),
+        ...(overlap !== undefined ? { overlap } : {})
+      }
+      : undefined,
+    print: values.booklet || gutter !== undefined || values['mirror-margins']
+      ? {
+        ...base.print,
+        ...(values.booklet ? { layout: PrintLayout.Booklet } : {}),
+        ...(gutter !== undefined ? { gutter } : {}),
+        ...(values['mirror-margins'] ? { mirrorMargins: true } : {})
+      }
+      : undefined
+  };
+  const options: PdfOptions = {
+    ...base,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+    // OCR needs the browser build of Tesseract
+    searchable: false
+  };
+  const properties: DocumentProperties = {
+    title: values.title ?? '',
+    author: values.author ?? '',
+    subject: '',
+    keywords: ''
+  };
+
+  const files = await expandInputs(positionals, !!values.recursive);
+  if (files.length === 0) throw new UsageError('no supported images found');
+  await useNodeBackend({ fontPath: values.font });
+
+  const log = (message: string) => {
+    if (!values.quiet) console.log(message);
+  };
+  const write = async (path: string, pdf: Blob) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, Buffer.from(await pdf.arrayBuffer()));
+    log(`${path} (${(pdf.size / 1024 / 1024).toFixed(1)} MB)`);
+  };
+
+  if (values.merge || values.stitch) {
+    const output = resolve(values.output ?? `${baseName(files[0])}.pdf`);
+    if (values['skip-existing'] && await exists(output)) {
+      log(`${output} exists, skipped`);
+      return 0;
+    }
+    let sources = await Promise.all(files.map(readSourceImage));
+    if (values.stitch && sources.length > 1) {
+      const seams = await detectSeams(sources);
+      seams.forEach((seam, idx) => {
+        if (!seam.detected) console.error(`${files[idx + 1]}: no overlap with the previous screenshot found`);
+      });
+      sources = [await stitchCaptures(sources, seams)];
+    }
+    await write(output, await convertToPdf(sources, options, { properties }));
+    return 0;
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const output = values.output
+      ? join(resolve(values.output), `${baseName(basename(file))}.pdf`)
+      : `${baseName(file)}.pdf`;
+    if (values['skip-existing'] && await exists(output)) {
+      log(`${output} exists, skipped`);
+      continue;
+    }
+    try {
+      const source = await readSourceImage(file);
+      await write(output, await convertToPdf([source], options, { properties }));
+    } catch (err) {
+      // Keep going so one broken screenshot does not stop a nightly batch
+      failed++;
+      console.error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    if (err instanceof UsageError || (err as { code?: string }).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+      console.error(`longimg2pdf: ${err.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error(`longimg2pdf: ${err instanceof Error ? err.message : String(err)}`);
+      process.exitCode = 1;
+    }
+  }
+);
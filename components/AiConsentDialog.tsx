@@ -0,0 +1,46 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+
+interface AiConsentDialogProps {
+  destination: string;
+  imageCount: number;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks before any image leaves the browser for AI analysis
+ */
+const AiConsentDialog: React.FC<AiConsentDialogProps> = ({ destination, imageCount, onAccept, onCancel }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+    <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl p-6 space-y-4">
+      <div className="flex items-center gap-2 text-amber-600">
+        <ShieldAlert className="w-5 h-5" />
+        <h3 className="font-bold">发送图片进行 AI 分析？</h3>
+      </div>
+      <p className="text-sm text-slate-600 leading-relaxed">
+        将把 {imageCount} 张图片的完整内容发送到以下服务进行分析：
+      </p>
+      <p className="px-3 py-2 text-sm font-mono break-all bg-slate-50 rounded-lg text-slate-700">{destination}</p>
+      <p className="text-xs text-slate-400">
+        请确认图片中没有不允许外发的信息。同意后，对该服务的后续分析不再询问；更换服务时会重新确认。
+      </p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-slate-600 hover:bg-slate-100"
+        >
+          取消
+        </button>
+        <button
+          onClick={onAccept}
+          className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+        >
+          同意并分析
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default AiConsentDialog;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { AiProvider, AiSettings } from '../types';
+import { hasEnvGeminiKey } from '../services/aiService';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (patch: Partial<AiSettings>) => void;
+}
+
+const PROVIDERS = [
+  { key: AiProvider.Disabled, label: '关闭' },
+  { key: AiProvider.Gemini, label: 'Gemini' },
+  { key: AiProvider.OpenAiCompatible, label: '本地模型' }
+];
+
+/**
+ * Provider selection and connection details for the AI analysis
+ */
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const fields: { key: keyof AiSettings; label: string; placeholder: string; secret?: boolean }[] =
+    settings.provider === AiProvider.Gemini
+      ? [
+          {
+            key: 'geminiApiKey',
+            label: 'API Key',
+            placeholder: hasEnvGeminiKey() ? '留空则使用 .env.local 中的 Key' : 'Gemini API Key',
+            secret: true
+          },
+          { key: 'geminiModel', label: '模型', placeholder: 'gemini-3-flash-preview' }
+        ]
+      : settings.provider === AiProvider.OpenAiCompatible
+      ? [
+          { key: 'endpoint', label: '接口地址', placeholder: 'http://localhost:11434/v1' },
+          { key: 'model', label: '模型', placeholder: 'qwen2.5vl' },
+          { key: 'apiKey', label: 'API Key', placeholder: '可选', secret: true }
+        ]
+      : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1 p-1 bg-white/70 rounded-xl">
+        {PROVIDERS.map(item => (
+          <button
+            key={item.key}
+            onClick={() => onChange({ provider: item.key })}
+            className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-all ${
+              settings.provider === item.key
+              ? 'bg-white text-blue-600 shadow-sm'
+              : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      {fields.map(field => (
+        <div key={field.key}>
+          <label className="block text-xs font-medium text-blue-900/70 mb-1">{field.label}</label>
+          <input
+            type={field.secret ? 'password' : 'text'}
+            value={settings[field.key] as string}
+            onChange={(e) => onChange({ [field.key]: e.target.value.trim() })}
+            placeholder={field.placeholder}
+            className="w-full px-3 py-1.5 text-sm rounded-lg border border-blue-100 bg-white"
+          />
+        </div>
+      ))}
+      {settings.provider === AiProvider.OpenAiCompatible && (
+        <p className="text-xs text-blue-800/60">兼容 OpenAI 接口的视觉模型，如 Ollama、llama.cpp server。</p>
+      )}
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
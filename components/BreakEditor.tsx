@@ -0,0 +1,304 @@
+import React, { useRef, useState } from 'react';
+import { Scissors, Link2, RotateCcw, X, Bookmark as BookmarkIcon } from 'lucide-react';
+import { SourceImage, KeepRegion, Bookmark } from '../types';
+
+interface BreakEditorProps {
+  source: SourceImage;
+  breaks: number[]; // effective breaks in source rows, excluding 0
+  segmentHeightPx: number;
+  columns: number; // slices per page in multi-column layouts
+  suggestedTitles: string[]; // offered when naming a bookmark
+  onChange: (patch: Partial<SourceImage>) => void;
+}
+
+type EditMode = 'break' | 'keep';
+
+// On-screen width of the source image in the editor
+const DISPLAY_WIDTH = 420;
+
+/**
+ * Interactive view of a whole source image with its page breaks.
+ * Break lines can be dragged, added by clicking and removed; in "keep"
+ * mode dragging across the image marks a region that must stay on one page.
+ * Breaks (and the top of the image) can be named to create bookmarks.
+ */
+const BreakEditor: React.FC<BreakEditorProps> = ({
+  source,
+  breaks,
+  segmentHeightPx,
+  columns,
+  suggestedTitles,
+  onChange
+}) => {
+  const [mode, setMode] = useState<EditMode>('break');
+  const [dragging, setDragging] = useState<{ index: number; y: number } | null>(null);
+  const [drawing, setDrawing] = useState<KeepRegion | null>(null);
+  const [naming, setNaming] = useState<Bookmark | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const { width, height } = source.metadata;
+  const scale = DISPLAY_WIDTH / width;
+  const keepRegions = source.keepTogether ?? [];
+  const bookmarks = source.bookmarks ?? [];
+  const onBreaksChange = (next: number[]) => onChange({ breaks: next });
+  const onKeepTogetherChange = (regions: KeepRegion[]) => onChange({ keepTogether: regions });
+
+  const saveBookmark = (bookmark: Bookmark) => {
+    const others = bookmarks.filter(b => b.y !== bookmark.y);
+    onChange({
+      bookmarks: bookmark.title.trim()
+        ? [...others, { y: bookmark.y, title: bookmark.title.trim() }].sort((a, b) => a.y - b.y)
+        : others
+    });
+    setNaming(null);
+  };
+
+  const displayBreaks = breaks.map((y, idx) => (dragging?.index === idx ? dragging.y : y));
+
+  // Converts a pointer position into a source row
+  const rowAt = (clientY: number) => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return Math.round(Math.min(height, Math.max(0, (clientY - rect.top) / scale)));
+  };
+
+  const handleLinePointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setDragging({ index, y: breaks[index] });
+  };
+
+  const handleLinePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    // A break cannot be dragged past its neighbours
+    const min = dragging.index > 0 ? breaks[dragging.index - 1] + 1 : 1;
+    const max = dragging.index < breaks.length - 1 ? breaks[dragging.index + 1] - 1 : height - 1;
+    setDragging({ ...dragging, y: Math.min(max, Math.max(min, rowAt(e.clientY))) });
+  };
+
+  const handleLinePointerUp = () => {
+    if (!dragging) return;
+    const from = breaks[dragging.index];
+    const next = [...breaks];
+    next[dragging.index] = dragging.y;
+    setDragging(null);
+    // A bookmark on the break travels with it
+    onChange({
+      breaks: next,
+      bookmarks: bookmarks.map(b => (b.y === from ? { ...b, y: dragging.y } : b))
+    });
+  };
+
+  const handleSurfacePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'keep') return;
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+    const y = rowAt(e.clientY);
+    setDrawing({ start: y, end: y });
+  };
+
+  const handleSurfacePointerMove = (e: React.PointerEvent) => {
+    if (!drawing) return;
+    setDrawing({ ...drawing, end: rowAt(e.clientY) });
+  };
+
+  const handleSurfacePointerUp = (e: React.PointerEvent) => {
+    if (mode === 'break') {
+      const y = rowAt(e.clientY);
+      if (y > 0 && y < height && !breaks.includes(y)) {
+        onBreaksChange([...breaks, y].sort((a, b) => a - b));
+      }
+      return;
+    }
+    if (!drawing) return;
+    const region = {
+      start: Math.min(drawing.start, drawing.end),
+      end: Math.max(drawing.start, drawing.end)
+    };
+    setDrawing(null);
+    // Ignore accidental clicks
+    if (region.end - region.start < 4) return;
+    onKeepTogetherChange([...keepRegions, region]);
+  };
+
+  const renderRegion = (region: KeepRegion, key: React.Key, onRemove?: () => void) => {
+    const tooTall = region.end - region.start > segmentHeightPx;
+    return (
+      <div
+        key={key}
+        className={`absolute left-0 right-0 border-y-2 ${
+          tooTall ? 'bg-amber-400/20 border-amber-500' : 'bg-emerald-400/20 border-emerald-500'
+        }`}
+        style={{ top: region.start * scale, height: (region.end - region.start) * scale }}
+        title={tooTall ? '区域超过一页高度，无法保持在同一页' : '保持在同一页'}
+      >
+        {onRemove && (
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+            onClick={onRemove}
+            className="absolute top-1 right-1 p-0.5 bg-white rounded shadow text-slate-500 hover:text-red-500"
+            title="删除区域"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <div className="flex gap-1 p-1 bg-white rounded-xl shadow-sm">
+          {[
+            { key: 'break' as EditMode, label: '添加分页线', icon: Scissors },
+            { key: 'keep' as EditMode, label: '保持同页区域', icon: Link2 }
+          ].map(item => (
+            <button
+              key={item.key}
+              onClick={() => setMode(item.key)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${
+                mode === item.key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <item.icon className="w-3.5 h-3.5" />
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <button
+          disabled={!source.breaks}
+          onClick={() => onChange({ breaks: undefined })}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-xl bg-white shadow-sm text-slate-600 hover:text-slate-900 disabled:opacity-40"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          恢复自动分页
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        {mode === 'break' ? '点击图片添加分页线，拖动红线调整位置，点击书签图标命名' : '在图片上拖动以标记不可拆分的区域'}
+      </p>
+
+      <div
+        ref={surfaceRef}
+        className={`relative bg-white shadow-2xl select-none touch-none ${mode === 'keep' ? 'cursor-row-resize' : 'cursor-crosshair'}`}
+        style={{ width: DISPLAY_WIDTH, height: height * scale }}
+        onPointerDown={handleSurfacePointerDown}
+        onPointerMove={handleSurfacePointerMove}
+        onPointerUp={handleSurfacePointerUp}
+      >
+        <img src={source.dataUrl} alt={source.metadata.name} className="block w-full h-full pointer-events-none" draggable={false} />
+
+        {keepRegions.map((region, idx) =>
+          renderRegion(region, idx, () => onKeepTogetherChange(keepRegions.filter((_, i) => i !== idx)))
+        )}
+        {drawing && renderRegion(
+          { start: Math.min(drawing.start, drawing.end), end: Math.max(drawing.start, drawing.end) },
+          'drawing'
+        )}
+
+        {displayBreaks.map((y, idx) => {
+          const prev = idx > 0 ? displayBreaks[idx - 1] : 0;
+          const overlong = y - prev > segmentHeightPx + 1;
+          return (
+            <div
+              key={idx}
+              className="absolute left-0 right-0 group"
+              style={{ top: y * scale - 6, height: 12 }}
+              onPointerDown={(e) => handleLinePointerDown(e, idx)}
+              onPointerMove={handleLinePointerMove}
+              onPointerUp={(e) => {
+                e.stopPropagation();
+                handleLinePointerUp();
+              }}
+            >
+              <div className={`absolute left-0 right-0 top-[5px] h-0.5 cursor-ns-resize ${
+                overlong ? 'bg-amber-500' : 'bg-red-500'
+              }`} />
+              <span className="absolute -left-20 top-0 text-[10px] font-bold text-slate-500 w-[4.5rem] text-right">
+                {columns > 1
+                  ? `第 ${Math.floor((idx + 1) / columns) + 1} 页 ${((idx + 1) % columns) + 1} 栏`
+                  : `第 ${idx + 2} 页`}
+              </span>
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => e.stopPropagation()}
+                onClick={() => setNaming({ y: breaks[idx], title: bookmarks.find(b => b.y === breaks[idx])?.title ?? '' })}
+                className="absolute -right-14 -top-0.5 p-0.5 bg-white rounded shadow text-slate-500 hover:text-blue-600 opacity-0 group-hover:opacity-100"
+                title="命名为书签"
+              >
+                <BookmarkIcon className="w-3 h-3" />
+              </button>
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => e.stopPropagation()}
+                onClick={() => onBreaksChange(breaks.filter((_, i) => i !== idx))}
+                className="absolute -right-7 -top-0.5 p-0.5 bg-white rounded shadow text-slate-500 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                title="删除分页线"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onPointerUp={(e) => e.stopPropagation()}
+          onClick={() => setNaming({ y: 0, title: bookmarks.find(b => b.y === 0)?.title ?? '' })}
+          className="absolute -right-7 top-0 p-0.5 bg-white rounded shadow text-slate-500 hover:text-blue-600"
+          title="为首页添加书签"
+        >
+          <BookmarkIcon className="w-3 h-3" />
+        </button>
+
+        {bookmarks.map(bookmark => (
+          <div
+            key={bookmark.y}
+            className="absolute left-2 flex items-center gap-1 max-w-[70%] px-1.5 py-0.5 bg-blue-600 text-white text-[10px] font-semibold rounded shadow pointer-events-auto"
+            style={{ top: bookmark.y * scale + 2 }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+          >
+            <BookmarkIcon className="w-3 h-3 shrink-0" />
+            <button className="truncate" onClick={() => setNaming(bookmark)} title="重命名">{bookmark.title}</button>
+            <button onClick={() => saveBookmark({ ...bookmark, title: '' })} title="删除书签">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+
+        {naming && (
+          <form
+            className="absolute left-2 right-2 flex gap-1 p-1.5 bg-white rounded-lg shadow-xl z-10"
+            style={{ top: naming.y * scale + 4 }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveBookmark(naming);
+            }}
+          >
+            <input
+              autoFocus
+              list="bookmark-suggestions"
+              value={naming.title}
+              onChange={(e) => setNaming({ ...naming, title: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setNaming(null);
+              }}
+              placeholder="书签标题"
+              className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-slate-200"
+            />
+            <datalist id="bookmark-suggestions">
+              {suggestedTitles.map(title => <option key={title} value={title} />)}
+            </datalist>
+            <button type="submit" className="px-2 py-1 text-xs rounded bg-blue-600 text-white">保存</button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BreakEditor;
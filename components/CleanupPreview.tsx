@@ -0,0 +1,104 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { SourceImage, SourceView } from '../types';
+
+interface CleanupPreviewProps {
+  source: SourceImage;
+  view: SourceView | null; // null while detection runs
+}
+
+// On-screen width of each of the two images
+const DISPLAY_WIDTH = 300;
+
+const LEGEND = [
+  { className: 'bg-slate-900/50', label: '顶部/底部裁切' },
+  { className: 'bg-blue-500/40', label: '两侧留白' },
+  { className: 'bg-red-500/50', label: '重复的吸顶栏' }
+];
+
+/**
+ * Before/after comparison of the cleanup: the original with every removed
+ * part shaded by the option that removes it, next to the result
+ */
+const CleanupPreview: React.FC<CleanupPreviewProps> = ({ source, view }) => {
+  const { width, height } = source.metadata;
+  const scale = DISPLAY_WIDTH / width;
+
+  if (!view) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        正在检测...
+      </div>
+    );
+  }
+
+  const first = view.spans[0];
+  const last = view.spans[view.spans.length - 1];
+  const bars = view.spans.slice(1).map((span, idx) => ({ start: view.spans[idx].end, end: span.start }));
+  const keptWidth = view.right - view.left;
+  const afterScale = DISPLAY_WIDTH / keptWidth;
+
+  const band = (top: number, bandHeight: number, className: string, key: React.Key) => (
+    <div key={key} className={`absolute left-0 right-0 ${className}`} style={{ top: top * scale, height: bandHeight * scale }} />
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="flex flex-wrap justify-center gap-4 text-xs text-slate-500">
+        {LEGEND.map(item => (
+          <span key={item.label} className="flex items-center gap-1.5">
+            <span className={`inline-block w-3 h-3 rounded-sm ${item.className}`} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        {height}px → {view.spans.reduce((sum, span) => sum + span.end - span.start, 0)}px 高
+        {bars.length > 0 && ` · 去除 ${bars.length} 处重复栏`}
+        {keptWidth < width && ` · 宽 ${width}px → ${keptWidth}px`}
+      </p>
+
+      <div className="flex gap-8 items-start">
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs font-semibold text-slate-500">处理前</span>
+          <div className="relative bg-white shadow-2xl" style={{ width: DISPLAY_WIDTH, height: height * scale }}>
+            <img src={source.dataUrl} alt={source.metadata.name} className="block w-full h-full" draggable={false} />
+            {first && band(0, first.start, 'bg-slate-900/50', 'top')}
+            {last && band(last.end, height - last.end, 'bg-slate-900/50', 'bottom')}
+            {bars.map((bar, idx) => band(bar.start, bar.end - bar.start, 'bg-red-500/50', idx))}
+            <div className="absolute top-0 bottom-0 left-0 bg-blue-500/40" style={{ width: view.left * scale }} />
+            <div className="absolute top-0 bottom-0 right-0 bg-blue-500/40" style={{ width: (width - view.right) * scale }} />
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs font-semibold text-slate-500">处理后</span>
+          <div className="bg-white shadow-2xl" style={{ width: DISPLAY_WIDTH }}>
+            {view.spans.map((span, idx) => (
+              <div
+                key={idx}
+                className={`relative overflow-hidden ${idx > 0 ? 'border-t border-dashed border-red-400' : ''}`}
+                style={{ height: (span.end - span.start) * afterScale }}
+              >
+                <img
+                  src={source.dataUrl}
+                  alt=""
+                  className="absolute max-w-none"
+                  style={{
+                    width: width * afterScale,
+                    left: -view.left * afterScale,
+                    top: -span.start * afterScale
+                  }}
+                  draggable={false}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CleanupPreview;
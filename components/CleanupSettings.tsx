@@ -0,0 +1,73 @@
+import React from 'react';
+import { Crop } from 'lucide-react';
+import { CleanupOptions } from '../types';
+import Toggle from './Toggle';
+
+interface CleanupSettingsProps {
+  cleanup: CleanupOptions;
+  onChange: (cleanup: CleanupOptions) => void;
+  onPreview: () => void;
+}
+
+/**
+ * Cropping and screenshot chrome removal applied before pagination
+ */
+const CleanupSettings: React.FC<CleanupSettingsProps> = ({ cleanup, onChange, onPreview }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Crop className="w-4 h-4 text-slate-600" />
+        <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">截图清理</span>
+      </div>
+      <button onClick={onPreview} className="text-xs text-blue-600 hover:text-blue-700">对比预览</button>
+    </div>
+    <div className="p-6 space-y-5">
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { key: 'cropTop' as const, label: '裁掉顶部', hint: '如状态栏' },
+          { key: 'cropBottom' as const, label: '裁掉底部', hint: '如导航栏' }
+        ].map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{field.label}</label>
+            <div className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min={0}
+                value={cleanup[field.key]}
+                onChange={(e) => onChange({ ...cleanup, [field.key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200"
+                title={field.hint}
+              />
+              <span className="text-xs text-slate-400">px</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-700">自动裁掉两侧留白</label>
+        <Toggle
+          checked={cleanup.trimSides}
+          onChange={(trimSides) => onChange({ ...cleanup, trimSides })}
+          title="去掉左右两侧颜色一致的边距"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-slate-700">去除重复的吸顶栏</label>
+          <Toggle
+            checked={cleanup.removeRepeatedBars}
+            onChange={(removeRepeatedBars) => onChange({ ...cleanup, removeRepeatedBars })}
+            title="滚动拼接截图中重复出现的标题栏、底部栏只保留一次"
+          />
+        </div>
+        {cleanup.removeRepeatedBars && (
+          <p className="mt-2 text-xs text-slate-400">先裁掉状态栏，使图片顶部正好是标题栏，检测更准确。</p>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default CleanupSettings;
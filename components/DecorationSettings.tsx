@@ -0,0 +1,122 @@
+import React from 'react';
+import { Stamp } from 'lucide-react';
+import { PdfOptions, WatermarkType } from '../types';
+import { readImageFile } from '../services/imageService';
+import { OPTION_LIMITS } from '../services/presetService';
+
+interface DecorationSettingsProps {
+  options: PdfOptions;
+  onChange: (options: Partial<PdfOptions>) => void;
+}
+
+const TEMPLATE_TOKENS = ['{page}', '{total}', '{filename}', '{date}'];
+
+/**
+ * Header/footer templates and watermark settings
+ */
+const DecorationSettings: React.FC<DecorationSettingsProps> = ({ options, onChange }) => {
+  const { watermark } = options;
+
+  const handleWatermarkImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const image = await readImageFile(file);
+      onChange({ watermark: { ...watermark, type: WatermarkType.Image, imageDataUrl: image.dataUrl } });
+    } catch (err) {
+      console.error("Watermark image load failed", err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+        <Stamp className="w-4 h-4 text-slate-600" />
+        <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">页眉页脚与水印</span>
+      </div>
+      <div className="p-6 space-y-5">
+        {[
+          { key: 'headerTemplate' as const, label: '页眉' },
+          { key: 'footerTemplate' as const, label: '页脚' }
+        ].map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{field.label}</label>
+            <input
+              type="text"
+              value={options[field.key]}
+              onChange={(e) => onChange({ [field.key]: e.target.value })}
+              placeholder="留空则不显示"
+              className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200"
+            />
+          </div>
+        ))}
+        <p className="text-xs text-slate-400">可用变量：{TEMPLATE_TOKENS.join(' ')}</p>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">水印</label>
+          <div className="flex gap-2 p-1 bg-slate-100 rounded-xl">
+            {[
+              { key: WatermarkType.None, label: '无' },
+              { key: WatermarkType.Text, label: '文字' },
+              { key: WatermarkType.Image, label: '图片' }
+            ].map(item => (
+              <button
+                key={item.key}
+                onClick={() => onChange({ watermark: { ...watermark, type: item.key } })}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-all ${
+                  watermark.type === item.key 
+                  ? 'bg-white text-blue-600 shadow-sm' 
+                  : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {watermark.type === WatermarkType.Text && (
+          <input
+            type="text"
+            value={watermark.text}
+            onChange={(e) => onChange({ watermark: { ...watermark, text: e.target.value } })}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200"
+          />
+        )}
+
+        {watermark.type === WatermarkType.Image && (
+          <div className="flex items-center gap-3">
+            {watermark.imageDataUrl && (
+              <img src={watermark.imageDataUrl} alt="" className="w-12 h-12 object-contain rounded border border-slate-200" />
+            )}
+            <label className="px-3 py-2 text-xs rounded-lg border border-slate-200 hover:border-slate-300 cursor-pointer">
+              选择图片
+              <input type="file" accept="image/*" onChange={handleWatermarkImage} className="hidden" />
+            </label>
+          </div>
+        )}
+
+        {watermark.type !== WatermarkType.None && (
+          <div>
+            <div className="flex justify-between mb-2">
+              <span className="text-xs text-slate-500">不透明度</span>
+              <span className="text-xs text-slate-400">{Math.round(watermark.opacity * 100)}%</span>
+            </div>
+            <input 
+              type="range" 
+              min={OPTION_LIMITS.watermarkOpacity.min}
+              max={OPTION_LIMITS.watermarkOpacity.max}
+              step="0.05"
+              value={watermark.opacity}
+              onChange={(e) => onChange({ watermark: { ...watermark, opacity: parseFloat(e.target.value) } })}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecorationSettings;
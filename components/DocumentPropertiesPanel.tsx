@@ -0,0 +1,126 @@
+import React from 'react';
+import { FileText, Sparkles, Loader2 } from 'lucide-react';
+import { DocumentProperties, PageLabelOptions, PageLabelStyle } from '../types';
+import { OPTION_LIMITS } from '../services/presetService';
+
+interface DocumentPropertiesPanelProps {
+  properties: DocumentProperties;
+  onPropertiesChange: (properties: DocumentProperties) => void;
+  pageLabels: PageLabelOptions;
+  onPageLabelsChange: (pageLabels: PageLabelOptions) => void;
+  pageLabelsDisabled?: boolean; // booklet layout: sides are out of reading order
+  suggestedTitles: string[];
+  isSuggesting: boolean;
+  onSuggest?: () => void; // omitted when AI analysis is disabled
+}
+
+const PROPERTY_FIELDS: { key: keyof DocumentProperties; label: string; placeholder: string }[] = [
+  { key: 'title', label: '标题', placeholder: '默认使用文件名' },
+  { key: 'author', label: '作者', placeholder: '' },
+  { key: 'subject', label: '主题', placeholder: '' },
+  { key: 'keywords', label: '关键词', placeholder: '以逗号分隔' }
+];
+
+const PAGE_LABEL_STYLES = [
+  { key: PageLabelStyle.None, label: '无' },
+  { key: PageLabelStyle.Decimal, label: '1, 2, 3' },
+  { key: PageLabelStyle.RomanLower, label: 'i, ii, iii' },
+  { key: PageLabelStyle.RomanUpper, label: 'I, II, III' },
+  { key: PageLabelStyle.AlphaLower, label: 'a, b, c' }
+];
+
+/**
+ * Document info, page labels and AI heading suggestions for bookmarks
+ */
+const DocumentPropertiesPanel: React.FC<DocumentPropertiesPanelProps> = ({
+  properties,
+  onPropertiesChange,
+  pageLabels,
+  onPageLabelsChange,
+  pageLabelsDisabled = false,
+  suggestedTitles,
+  isSuggesting,
+  onSuggest
+}) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+      <FileText className="w-4 h-4 text-slate-600" />
+      <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">文档属性</span>
+    </div>
+    <div className="p-6 space-y-4">
+      {PROPERTY_FIELDS.map(field => (
+        <div key={field.key}>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">{field.label}</label>
+          <input
+            type="text"
+            value={properties[field.key]}
+            placeholder={field.placeholder}
+            onChange={(e) => onPropertiesChange({ ...properties, [field.key]: e.target.value })}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200"
+          />
+        </div>
+      ))}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1.5">页码标签</label>
+        <select
+          value={pageLabels.style}
+          disabled={pageLabelsDisabled}
+          onChange={(e) => onPageLabelsChange({ ...pageLabels, style: e.target.value as PageLabelStyle })}
+          className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 bg-white"
+        >
+          {PAGE_LABEL_STYLES.map(style => (
+            <option key={style.key} value={style.key}>{style.label}</option>
+          ))}
+        </select>
+        <div className="mt-2 flex gap-2">
+          <input
+            type="text"
+            value={pageLabels.prefix}
+            placeholder="前缀"
+            disabled={pageLabelsDisabled}
+            onChange={(e) => onPageLabelsChange({ ...pageLabels, prefix: e.target.value })}
+            className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-slate-200"
+          />
+          <input
+            type="number"
+            min={OPTION_LIMITS.labelStart.min}
+            value={pageLabels.start}
+            title="起始编号"
+            disabled={pageLabelsDisabled}
+            onChange={(e) => onPageLabelsChange({ ...pageLabels, start: Math.max(OPTION_LIMITS.labelStart.min, parseInt(e.target.value) || 1) })}
+            className="w-20 px-3 py-2 text-sm rounded-lg border border-slate-200"
+          />
+        </div>
+        {pageLabelsDisabled && (
+          <p className="mt-2 text-xs text-slate-400">小册子版式的纸面不按阅读顺序排列，不写入页码标签。</p>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <label className="text-sm font-medium text-slate-700">书签建议</label>
+          {onSuggest && (
+            <button
+              onClick={onSuggest}
+              disabled={isSuggesting}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              {isSuggesting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+              AI 识别标题
+            </button>
+          )}
+        </div>
+        {suggestedTitles.length > 0 ? (
+          <ul className="text-xs text-slate-500 space-y-1 max-h-32 overflow-y-auto">
+            {suggestedTitles.map(title => <li key={title} className="truncate">• {title}</li>)}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-400">在“分页编辑”中点击书签图标为分页线命名。</p>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default DocumentPropertiesPanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { Columns3 } from 'lucide-react';
+import { PdfOptions, ScaleMode, HorizontalAlign, LastPageMode } from '../types';
+import { OPTION_LIMITS } from '../services/presetService';
+
+interface LayoutSettingsProps {
+  options: PdfOptions;
+  maxColumnGap: number; // widest gap that leaves every column usable on this paper
+  onChange: (options: Partial<PdfOptions>) => void;
+}
+
+const COLUMN_CHOICES = [1, 2, 3, 4];
+const { columnGap, maxScale, scalePercent } = OPTION_LIMITS;
+const SCALE_MODES = [
+  { key: ScaleMode.FitWidth, label: '适应宽度' },
+  { key: ScaleMode.FitPage, label: '适应页面' },
+  { key: ScaleMode.Fixed, label: '固定比例' }
+];
+const ALIGNMENTS = [
+  { key: HorizontalAlign.Left, label: '左对齐' },
+  { key: HorizontalAlign.Center, label: '居中' },
+  { key: HorizontalAlign.Right, label: '右对齐' }
+];
+const LAST_PAGE_MODES = [
+  { key: LastPageMode.Pad, label: '整页' },
+  { key: LastPageMode.Shrink, label: '按内容缩短' },
+  { key: LastPageMode.Merge, label: '并入上一页' }
+];
+const N_UP_CHOICES = [
+  { key: 1, label: '每张 1 页' },
+  { key: 2, label: '每张 2 页' },
+  { key: 4, label: '每张 4 页' }
+];
+
+function Segmented<T extends string | number>({ items, value, onSelect }: {
+  items: { key: T; label: string }[];
+  value: T;
+  onSelect: (key: T) => void;
+}) {
+  return (
+    <div className="flex gap-2 p-1 bg-slate-100 rounded-xl">
+      {items.map(item => (
+        <button
+          key={item.key}
+          onClick={() => onSelect(item.key)}
+          className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-all ${
+            value === item.key
+            ? 'bg-white text-blue-600 shadow-sm'
+            : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Scaling, multi-column flow and n-up placement of pages on sheets
+ */
+const LayoutSettings: React.FC<LayoutSettingsProps> = ({ options, maxColumnGap, onChange }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+      <Columns3 className="w-4 h-4 text-slate-600" />
+      <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">版式</span>
+    </div>
+    <div className="p-6 space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">缩放</label>
+        <Segmented items={SCALE_MODES} value={options.scaleMode} onSelect={(scaleMode) => onChange({ scaleMode })} />
+        {options.scaleMode === ScaleMode.FitPage && (
+          <div className="mt-3">
+            <div className="flex justify-between mb-2">
+              <span className="text-xs text-slate-500">最大放大</span>
+              <span className="text-xs text-slate-400">{Math.round(options.maxScale * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={maxScale.min}
+              max={maxScale.max}
+              step="0.25"
+              value={options.maxScale}
+              onChange={(e) => onChange({ maxScale: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+        )}
+        {options.scaleMode === ScaleMode.Fixed && (
+          <div className="mt-3 flex items-center gap-2">
+            <input
+              type="number"
+              min={scalePercent.min}
+              max={scalePercent.max}
+              value={options.scalePercent}
+              onChange={(e) => onChange({ scalePercent: Math.min(scalePercent.max, Math.max(scalePercent.min, parseInt(e.target.value) || 100)) })}
+              className="w-24 px-3 py-2 text-sm rounded-lg border border-slate-200"
+            />
+            <span className="text-xs text-slate-400">% (按 96 DPI 原始尺寸，最宽到整栏)</span>
+          </div>
+        )}
+      </div>
+
+      {options.scaleMode !== ScaleMode.FitWidth && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">水平对齐</label>
+          <Segmented items={ALIGNMENTS} value={options.align} onSelect={(align) => onChange({ align })} />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">最后一页</label>
+        <Segmented
+          items={LAST_PAGE_MODES}
+          value={options.lastPage}
+          onSelect={(lastPage) => onChange({ lastPage })}
+        />
+        {options.columns > 1 && options.lastPage !== LastPageMode.Pad && (
+          <p className="mt-2 text-xs text-slate-400">分栏时最后一页保持整页。</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">分栏</label>
+        <Segmented
+          items={COLUMN_CHOICES.map(count => ({ key: count, label: count === 1 ? '不分栏' : `${count} 栏` }))}
+          value={options.columns}
+          onSelect={(columns) => onChange({ columns })}
+        />
+        {options.columns > 1 && (
+          <p className="mt-2 text-xs text-slate-400">长图从左栏顶部向下排，每栏单独分页，适合手机截图和聊天记录。</p>
+        )}
+      </div>
+
+      {options.columns > 1 && (
+        <div>
+          <div className="flex justify-between mb-2">
+            <label className="text-sm font-medium text-slate-700">栏间距</label>
+            <span className="text-xs text-slate-400">{options.columnGap}mm</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={Math.min(columnGap.max, Math.floor(maxColumnGap))}
+            step="1"
+            value={options.columnGap}
+            onChange={(e) => onChange({ columnGap: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">多页合一</label>
+        <Segmented items={N_UP_CHOICES} value={options.nUp} onSelect={(nUp) => onChange({ nUp })} />
+      </div>
+    </div>
+  </div>
+);
+
+export default LayoutSettings;
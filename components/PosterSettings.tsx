@@ -0,0 +1,111 @@
+import React from 'react';
+import { Grid2x2 } from 'lucide-react';
+import { PosterOptions } from '../types';
+import { PosterLayout } from '../services/pdfService';
+import { OPTION_LIMITS } from '../services/presetService';
+import Toggle from './Toggle';
+
+interface PosterSettingsProps {
+  poster: PosterOptions;
+  margin: number;
+  layout: PosterLayout | null; // grid of the first source; null without sources
+  onChange: (poster: PosterOptions) => void;
+}
+
+const SHEETS_ACROSS = [2, 3, 4];
+// Margin below which the marks are left out or cramped
+const MARK_MARGIN_MM = 8;
+const { posterWidth, posterOverlap } = OPTION_LIMITS;
+
+/**
+ * Poster mode: the image printed at a chosen width and tiled across sheets
+ * that are taped together
+ */
+const PosterSettings: React.FC<PosterSettingsProps> = ({ poster, margin, layout, onChange }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Grid2x2 className="w-4 h-4 text-slate-600" />
+        <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">海报拼贴</span>
+      </div>
+      <Toggle
+        checked={poster.enabled}
+        onChange={(enabled) => onChange({ ...poster, enabled })}
+        title="把宽图放大后横竖切成多张纸打印，拼贴成海报"
+      />
+    </div>
+    {poster.enabled && (
+      <div className="p-6 space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">成品宽度</label>
+          <div className="flex items-center gap-1.5">
+            <input
+              type="number"
+              min={posterWidth.min}
+              value={Math.round(poster.widthMm)}
+              onChange={(e) => onChange({ ...poster, widthMm: Math.max(posterWidth.min, parseInt(e.target.value) || posterWidth.min) })}
+              className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200"
+            />
+            <span className="text-xs text-slate-400">mm</span>
+          </div>
+          {layout && (
+            <div className="mt-2 flex gap-2">
+              {SHEETS_ACROSS.map(count => (
+                <button
+                  key={count}
+                  onClick={() => onChange({
+                    ...poster,
+                    widthMm: count * layout.printableWidthMm - (count - 1) * layout.overlap
+                  })}
+                  className="flex-1 py-1 text-xs rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50"
+                >
+                  {count} 张宽
+                </button>
+              ))}
+            </div>
+          )}
+          {layout && (
+            <p className="mt-2 text-xs text-slate-500">
+              {layout.rows} 行 × {layout.columns} 列，共 {layout.rows * layout.columns} 张 ·
+              成品 {Math.round(layout.posterWidthMm)}×{Math.round(layout.posterHeightMm)}mm
+            </p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between mb-2">
+            <label className="text-sm font-medium text-slate-700">拼接重叠</label>
+            <span className="text-xs text-slate-400">{poster.overlap}mm</span>
+          </div>
+          <input
+            type="range"
+            min={posterOverlap.min}
+            max={posterOverlap.max}
+            step="1"
+            value={poster.overlap}
+            onChange={(e) => onChange({ ...poster, overlap: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-slate-700">裁切标记与行列编号</label>
+            <Toggle
+              checked={poster.marks}
+              onChange={(marks) => onChange({ ...poster, marks })}
+              title="在页边距中画出裁切线、对位标记、重叠线和 A1、B2 式编号"
+            />
+          </div>
+          {poster.marks && margin < MARK_MARGIN_MM && (
+            <p className="mt-2 text-xs text-amber-600">标记画在页边距内，页边距至少 {MARK_MARGIN_MM}mm 才放得下。</p>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400">海报模式下分栏、多页合一、最后一页和分页设置不生效。</p>
+      </div>
+    )}
+  </div>
+);
+
+export default PosterSettings;
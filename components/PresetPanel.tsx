@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Download, Upload, Trash2 } from 'lucide-react';
+import { PdfPreset } from '../types';
+
+interface PresetPanelProps {
+  presets: PdfPreset[];
+  onApply: (preset: PdfPreset) => void;
+  onSave: (name: string) => void; // saves the current options, replacing a preset of that name
+  onDelete: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  importError: string | null;
+}
+
+/**
+ * Named option presets: apply, save the current settings, export/import as JSON
+ */
+const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  onApply,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+  importError
+}) => {
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bookmark className="w-4 h-4 text-slate-600" />
+          <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">预设</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg transition-colors"
+            title="导入预设 (JSON)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onExport}
+            disabled={presets.length === 0}
+            className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+            title="导出全部预设 (JSON)"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+      <div className="p-6 space-y-4">
+        {presets.length === 0 ? (
+          <p className="text-xs text-slate-400">还没有预设。调整好页面尺寸、边距、画质等设置后保存，下次一键套用。</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {presets.map(preset => (
+              <li key={preset.name} className="flex items-center gap-2">
+                <button
+                  onClick={() => onApply(preset)}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm text-left rounded-lg border border-slate-200 hover:border-blue-400 hover:bg-blue-50 truncate transition-colors"
+                  title="套用此预设"
+                >
+                  {preset.name}
+                </button>
+                <button
+                  onClick={() => onDelete(preset.name)}
+                  className="p-1.5 text-slate-300 hover:text-red-500 rounded-lg transition-colors"
+                  title="删除预设"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            placeholder="预设名称"
+            className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-slate-200"
+          />
+          <button
+            onClick={save}
+            disabled={!name.trim()}
+            className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-400 transition-colors"
+          >
+            保存当前
+          </button>
+        </div>
+        {presets.some(preset => preset.name === name.trim()) && (
+          <p className="text-xs text-amber-600">将覆盖同名预设。</p>
+        )}
+        {importError && <p className="text-xs text-red-500">{importError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { PrintOptions, PrintLayout } from '../types';
+import { OPTION_LIMITS } from '../services/presetService';
+import Toggle from './Toggle';
+
+interface PrintSettingsProps {
+  print: PrintOptions;
+  onChange: (print: PrintOptions) => void;
+}
+
+const LAYOUTS: { value: PrintLayout; label: string; title: string }[] = [
+  { value: PrintLayout.Normal, label: '普通', title: '每页一面，按顺序打印' },
+  { value: PrintLayout.Booklet, label: '骑马钉小册子', title: '每面两页，双面打印后对折装订即成小册子' }
+];
+
+/**
+ * Preparing the PDF for paper: booklet imposition and the binding gutter
+ */
+const PrintSettings: React.FC<PrintSettingsProps> = ({ print, onChange }) => {
+  const booklet = print.layout === PrintLayout.Booklet;
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+        <BookOpen className="w-4 h-4 text-slate-600" />
+        <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">打印装订</span>
+      </div>
+      <div className="p-6 space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">打印版式</label>
+          <div className="flex gap-2 p-1 bg-slate-100 rounded-xl">
+            {LAYOUTS.map(layout => (
+              <button
+                key={layout.value}
+                onClick={() => onChange({ ...print, layout: layout.value })}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-all ${
+                  print.layout === layout.value
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-slate-500 hover:text-slate-700'
+                }`}
+                title={layout.title}
+              >
+                {layout.label}
+              </button>
+            ))}
+          </div>
+          {booklet && (
+            <p className="mt-2 text-xs text-slate-500">
+              页数补足为 4 的倍数，每张纸横放两页；请选择双面打印、短边翻转。多页合一设置不生效。
+            </p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between mb-2">
+            <label className="text-sm font-medium text-slate-700">装订线</label>
+            <span className="text-xs text-slate-400">{print.gutter}mm</span>
+          </div>
+          <input
+            type="range"
+            min={OPTION_LIMITS.gutter.min}
+            max={OPTION_LIMITS.gutter.max}
+            step="1"
+            value={print.gutter}
+            onChange={(e) => onChange({ ...print, gutter: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <p className="mt-2 text-xs text-slate-400">在装订一侧的页边距上额外留出的宽度。</p>
+        </div>
+
+        {!booklet && (
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-slate-700">双面镜像页边距</label>
+            <Toggle
+              checked={print.mirrorMargins}
+              onChange={(mirrorMargins) => onChange({ ...print, mirrorMargins })}
+              title="奇数页装订线在左，偶数页在右，双面打印时装订边对齐"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintSettings;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { EyeOff, ScanSearch, Check, X, Loader2 } from 'lucide-react';
+import { SourceImage, Redaction, RedactionSuggestion } from '../types';
+
+interface RedactionEditorProps {
+  source: SourceImage;
+  suggestions: RedactionSuggestion[]; // detected but not yet accepted
+  detectProgress: number | null; // 0-1 while detection runs
+  error: string | null; // why the last detection failed
+  onDetect: () => void;
+  onSuggestionsChange: (suggestions: RedactionSuggestion[]) => void;
+  onChange: (redactions: Redaction[]) => void;
+}
+
+// On-screen width of the source image in the editor
+const DISPLAY_WIDTH = 420;
+
+/**
+ * Draws redaction boxes on a whole source image. Boxes show exactly what is
+ * burned into the output: solid black. Detected personal data appears as
+ * dashed suggestions that can be accepted one by one or all at once.
+ */
+const RedactionEditor: React.FC<RedactionEditorProps> = ({
+  source,
+  suggestions,
+  detectProgress,
+  error,
+  onDetect,
+  onSuggestionsChange,
+  onChange
+}) => {
+  const [drawing, setDrawing] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const { width, height } = source.metadata;
+  const scale = DISPLAY_WIDTH / width;
+  const redactions = source.redactions ?? [];
+
+  // Converts a pointer position into source pixels
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.round(Math.min(width, Math.max(0, (e.clientX - rect.left) / scale))),
+      y: Math.round(Math.min(height, Math.max(0, (e.clientY - rect.top) / scale)))
+    };
+  };
+
+  const normalize = (box: { x0: number; y0: number; x1: number; y1: number }): Redaction => ({
+    x: Math.min(box.x0, box.x1),
+    y: Math.min(box.y0, box.y1),
+    width: Math.abs(box.x1 - box.x0),
+    height: Math.abs(box.y1 - box.y0)
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = pointAt(e);
+    setDrawing({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drawing) return;
+    const { x, y } = pointAt(e);
+    setDrawing({ ...drawing, x1: x, y1: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    const box = normalize(drawing);
+    setDrawing(null);
+    // Ignore accidental clicks
+    if (box.width < 3 || box.height < 3) return;
+    onChange([...redactions, box]);
+  };
+
+  const acceptSuggestion = (suggestion: RedactionSuggestion) => {
+    const { x, y, width: w, height: h } = suggestion;
+    onChange([...redactions, { x, y, width: w, height: h }]);
+    onSuggestionsChange(suggestions.filter(s => s !== suggestion));
+  };
+
+  const boxStyle = (box: Redaction) => ({
+    left: box.x * scale,
+    top: box.y * scale,
+    width: Math.max(2, box.width * scale),
+    height: Math.max(2, box.height * scale)
+  });
+
+  const stop = (e: React.PointerEvent) => e.stopPropagation();
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          onClick={onDetect}
+          disabled={detectProgress !== null}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-xl bg-white shadow-sm text-slate-600 hover:text-slate-900 disabled:opacity-60"
+        >
+          {detectProgress !== null
+            ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            : <ScanSearch className="w-3.5 h-3.5" />}
+          {detectProgress !== null ? `正在识别 ${Math.round(detectProgress * 100)}%` : '自动检测敏感信息'}
+        </button>
+        {suggestions.length > 0 && (
+          <>
+            <button
+              onClick={() => {
+                onChange([...redactions, ...suggestions.map(({ x, y, width: w, height: h }) => ({ x, y, width: w, height: h }))]);
+                onSuggestionsChange([]);
+              }}
+              className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-xl bg-blue-600 text-white shadow-sm hover:bg-blue-700"
+            >
+              <Check className="w-3.5 h-3.5" />
+              全部遮盖 ({suggestions.length})
+            </button>
+            <button
+              onClick={() => onSuggestionsChange([])}
+              className="px-3 py-2 text-xs font-medium rounded-xl bg-white shadow-sm text-slate-600 hover:text-slate-900"
+            >
+              忽略建议
+            </button>
+          </>
+        )}
+        <button
+          disabled={redactions.length === 0}
+          onClick={() => onChange([])}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-xl bg-white shadow-sm text-slate-600 hover:text-slate-900 disabled:opacity-40"
+        >
+          <X className="w-3.5 h-3.5" />
+          清除全部遮盖
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-500">检测失败：{error}</p>}
+      <p className="text-xs text-slate-500">
+        在图片上拖动框选需要遮盖的区域，遮盖在分页前写入像素，导出文件中无法恢复
+      </p>
+
+      <div
+        ref={surfaceRef}
+        className="relative bg-white shadow-2xl select-none touch-none cursor-crosshair"
+        style={{ width: DISPLAY_WIDTH, height: height * scale }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <img src={source.dataUrl} alt={source.metadata.name} className="block w-full h-full pointer-events-none" draggable={false} />
+
+        {redactions.map((box, idx) => (
+          <div key={idx} className="absolute bg-black group" style={boxStyle(box)}>
+            <button
+              onPointerDown={stop}
+              onPointerUp={stop}
+              onClick={() => onChange(redactions.filter((_, i) => i !== idx))}
+              className="absolute -top-2 -right-2 p-0.5 bg-white rounded-full shadow text-slate-500 hover:text-red-500 opacity-0 group-hover:opacity-100"
+              title="取消遮盖"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+
+        {suggestions.map((suggestion, idx) => (
+          <button
+            key={`s-${idx}`}
+            onPointerDown={stop}
+            onPointerUp={stop}
+            onClick={() => acceptSuggestion(suggestion)}
+            className="absolute border-2 border-dashed border-amber-500 bg-amber-400/20 hover:bg-amber-400/40"
+            style={boxStyle(suggestion)}
+            title={`${suggestion.label}：${suggestion.text}（点击遮盖）`}
+          />
+        ))}
+
+        {drawing && (
+          <div className="absolute bg-black/60 border border-black" style={boxStyle(normalize(drawing))} />
+        )}
+      </div>
+
+      {redactions.length > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-slate-500">
+          <EyeOff className="w-3.5 h-3.5" />
+          已遮盖 {redactions.length} 处
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionEditor;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { GripVertical, ArrowUp, ArrowDown, X, Plus, Images } from 'lucide-react';
+import { SourceImage } from '../types';
+
+interface SourceListProps {
+  sources: SourceImage[];
+  onReorder: (from: number, to: number) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+}
+
+/**
+ * Ordered list of uploaded images. Entries can be dragged or nudged with
+ * the arrow buttons; the order here is the order pages appear in the PDF.
+ */
+const SourceList: React.FC<SourceListProps> = ({ sources, onReorder, onRemove, onAdd }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Images className="w-4 h-4 text-slate-600" />
+          <span className="font-semibold text-sm uppercase tracking-wider text-slate-500">
+            源图片 ({sources.length})
+          </span>
+        </div>
+        <button
+          onClick={onAdd}
+          className="p-1.5 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+          title="添加图片"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+        {sources.map((source, idx) => (
+          <li
+            key={source.id}
+            draggable
+            onDragStart={(e) => {
+              setDragIndex(idx);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+            }}
+            onDrop={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+              if (dragIndex !== idx) onReorder(dragIndex, idx);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center gap-2 px-3 py-2 text-sm transition-colors ${
+              dragIndex === idx ? 'bg-blue-50 opacity-60' : 'hover:bg-slate-50'
+            }`}
+          >
+            <GripVertical className="w-4 h-4 text-slate-300 cursor-grab shrink-0" />
+            <span className="text-xs font-bold text-slate-400 w-5 shrink-0">{idx + 1}</span>
+            <img src={source.dataUrl} alt="" className="w-8 h-10 object-cover object-top rounded border border-slate-200 shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-slate-700" title={source.metadata.name}>{source.metadata.name}</p>
+              <p className="text-xs text-slate-400">{source.metadata.width}x{source.metadata.height}px</p>
+            </div>
+            <div className="flex items-center shrink-0">
+              <button
+                disabled={idx === 0}
+                onClick={() => onReorder(idx, idx - 1)}
+                className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                title="上移"
+              >
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                disabled={idx === sources.length - 1}
+                onClick={() => onReorder(idx, idx + 1)}
+                className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                title="下移"
+              >
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onRemove(source.id)}
+                className="p-1 text-slate-400 hover:text-red-500"
+                title="移除"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Loader2, TriangleAlert } from 'lucide-react';
+import { SourceImage, StitchSeam } from '../types';
+import { stitchedRanges } from '../services/stitchService';
+
+interface StitchReviewProps {
+  captures: SourceImage[];
+  seams: StitchSeam[] | null; // null while detection runs
+  detectedSeams: StitchSeam[];
+  error: string | null;
+  isStitching: boolean;
+  onChange: (seams: StitchSeam[]) => void;
+  onStitch: () => void;
+}
+
+// On-screen width of the captures
+const DISPLAY_WIDTH = 360;
+// Source rows shown above and below each seam
+const CONTEXT_ROWS = 240;
+
+/**
+ * Review of the joins between consecutive screenshots before they are
+ * stitched: each seam shows the rows meeting there, with inputs to move
+ * either side when the detected overlap is wrong
+ */
+const StitchReview: React.FC<StitchReviewProps> = ({ captures, seams, detectedSeams, error, isStitching, onChange, onStitch }) => {
+  if (error && !seams) {
+    return <p className="text-sm text-red-500">{error}</p>;
+  }
+  if (!seams) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        正在查找重叠区域...
+      </div>
+    );
+  }
+
+  const scale = DISPLAY_WIDTH / captures[0].metadata.width;
+  const ranges = stitchedRanges(captures, seams);
+  const totalHeight = ranges.reduce((sum, range) => sum + range.end - range.start, 0);
+  const undetected = seams.filter(seam => !seam.detected).length;
+
+  const updateSeam = (idx: number, patch: Partial<StitchSeam>) => {
+    onChange(seams.map((seam, seamIdx) => (seamIdx === idx ? { ...seam, ...patch } : seam)));
+  };
+
+  // Rows [start, end) of a capture, cropped out of the full image
+  const strip = (capture: SourceImage, start: number, end: number) => (
+    <div className="relative overflow-hidden" style={{ height: Math.max(0, end - start) * scale }}>
+      <img
+        src={capture.dataUrl}
+        alt=""
+        className="absolute left-0 max-w-none"
+        style={{ width: DISPLAY_WIDTH, top: -start * scale }}
+        draggable={false}
+      />
+    </div>
+  );
+
+  const rowInput = (label: string, value: number, max: number, onValue: (value: number) => void) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={max}
+        value={value}
+        onChange={(e) => onValue(Math.min(max, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+        className="w-24 px-2 py-1 text-sm rounded-md border border-slate-200"
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full">
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <p className="text-xs text-slate-500">
+          {captures.length} 张截图 → {captures[0].metadata.width}x{totalHeight}px
+          {undetected > 0 && ` · ${undetected} 处未找到重叠`}
+        </p>
+        <button
+          onClick={onStitch}
+          disabled={isStitching}
+          className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 transition-colors flex items-center gap-2"
+        >
+          {isStitching && <Loader2 className="w-4 h-4 animate-spin" />}
+          拼接为一张长图
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {seams.map((seam, idx) => {
+        const upper = captures[idx];
+        const lower = captures[idx + 1];
+        const upperFrom = Math.max(ranges[idx].start, seam.upperEnd - CONTEXT_ROWS);
+        const lowerTo = Math.min(lower.metadata.height, seam.lowerStart + CONTEXT_ROWS);
+        const detected = detectedSeams[idx];
+        const changed = detected && (detected.upperEnd !== seam.upperEnd || detected.lowerStart !== seam.lowerStart);
+        return (
+          <div key={`${upper.id}-${lower.id}`} className="flex gap-6 items-start">
+            <div className="bg-white shadow-2xl" style={{ width: DISPLAY_WIDTH }}>
+              {strip(upper, upperFrom, seam.upperEnd)}
+              <div className="border-t-2 border-dashed border-red-500" />
+              {strip(lower, seam.lowerStart, lowerTo)}
+            </div>
+            <div className="w-56 space-y-3 bg-white rounded-xl p-4 shadow-sm">
+              <p className="text-xs font-semibold text-slate-500">
+                第 {idx + 1} / {idx + 2} 张之间
+              </p>
+              {!seam.detected && (
+                <p className="flex items-start gap-1.5 text-xs text-amber-600">
+                  <TriangleAlert className="w-4 h-4 shrink-0" />
+                  未找到重叠，仅去掉了固定栏，请手动调整
+                </p>
+              )}
+              {rowInput('上图保留到', seam.upperEnd, upper.metadata.height, value => updateSeam(idx, { upperEnd: value }))}
+              {rowInput('下图起始行', seam.lowerStart, lower.metadata.height - 1, value => updateSeam(idx, { lowerStart: value }))}
+              {changed && (
+                <button
+                  onClick={() => updateSeam(idx, detected)}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  恢复自动检测结果
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StitchReview;
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface ToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  title?: string;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ checked, onChange, title }) => (
+  <button
+    role="switch"
+    aria-checked={checked}
+    onClick={() => onChange(!checked)}
+    className={`relative w-10 h-6 rounded-full transition-colors shrink-0 ${
+      checked ? 'bg-blue-600' : 'bg-slate-300'
+    }`}
+    title={title}
+  >
+    <span className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${
+      checked ? 'translate-x-4' : ''
+    }`} />
+  </button>
+);
+
+export default Toggle;
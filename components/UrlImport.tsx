@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Link, Loader2 } from 'lucide-react';
+
+interface UrlImportProps {
+  onImport: (url: string) => Promise<void>;
+}
+
+/**
+ * Field for loading an image from a web address
+ */
+const UrlImport: React.FC<UrlImportProps> = ({ onImport }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const submit = async () => {
+    if (!url.trim() || isLoading) return;
+    setIsLoading(true);
+    try {
+      await onImport(url.trim());
+      setUrl('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <div className="relative flex-1 min-w-0">
+        <Link className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder="粘贴图片网址"
+          className="w-full pl-9 pr-3 py-2 text-sm rounded-lg border border-slate-200"
+        />
+      </div>
+      <button
+        onClick={submit}
+        disabled={!url.trim() || isLoading}
+        className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-400 transition-colors flex items-center gap-1.5"
+      >
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+        导入
+      </button>
+    </div>
+  );
+};
+
+export default UrlImport;
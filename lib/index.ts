@@ -0,0 +1,63 @@
+// Library entry point: the split and compose core without the React UI.
+// Runs anywhere a render backend is installed; in the browser the default
+// one is used, in Node call `useNodeBackend()` from './node' first.
+import { PdfOptions, ProcessedPage, SourceImage, DocumentProperties } from '../types';
+import { generatePdfPages, createPdfBlob, collectBookmarks } from '../services/pdfService';
+import { fitToTargetSize } from '../services/sizeService';
+import { baseName } from '../services/imageService';
+
+export * from '../types';
+export {
+  generatePdfPages, createPdfBlob, collectBookmarks, computePageBreaks,
+  getPageLayout, getPosterLayout, posterLabel, getSourceView, layoutSheets, sheetFrames, estimatePdfSize, fillTemplate
+} from '../services/pdfService';
+export type { GenerateOptions, PdfBookmark, PdfContext, PageFrame, Sheet, SheetPlacement } from '../services/pdfService';
+export {
+  exportPdf, exportPdfPerSource, exportImages, exportHtml, createBlobSink, EXPORT_FILES
+} from '../services/exportService';
+export type { ExportSink, ImageExportOptions } from '../services/exportService';
+export { detectSeams, findSeam, stitchCaptures, stitchedRanges } from '../services/stitchService';
+export { DEFAULT_PDF_OPTIONS, OPTION_LIMITS, withDefaultOptions, parsePresetFile } from '../services/presetService';
+export type { OptionRange } from '../services/presetService';
+export { fitToTargetSize };
+export type { SizeFitResult } from '../services/sizeService';
+export { setRenderBackend, getRenderBackend, browserBackend } from '../services/renderBackend';
+export type { RenderBackend, RenderSurface, RenderContext, DecodedImage } from '../services/renderBackend';
+export { setCjkFontLoader } from '../services/fontService';
+
+export interface ConvertOptions {
+  properties?: DocumentProperties;
+  signal?: AbortSignal;
+  // Called after each rendered page of each source
+  onProgress?: (source: number, done: number, total: number) => void;
+}
+
+/**
+ * Renders the sources in order and assembles them into one PDF, with the
+ * same pagination, layout and decorations as the app. Manual breaks and
+ * bookmarks set on the sources are honoured, and `targetSizeMb` runs the
+ * same size search as the app.
+ */
+export async function convertToPdf(
+  sources: SourceImage[],
+  options: PdfOptions,
+  { properties, signal, onProgress }: ConvertOptions = {}
+): Promise<Blob> {
+  let pages: ProcessedPage[] = [];
+  if (options.targetSizeMb) {
+    pages = (await fitToTargetSize(sources, options, options.targetSizeMb * 1024 * 1024, { signal })).pages;
+  } else {
+    for (const [idx, source] of sources.entries()) {
+      pages.push(...await generatePdfPages(source, options, source.breaks, {
+        signal,
+        onProgress: (done, total) => onProgress?.(idx, done, total)
+      }));
+    }
+  }
+  const name = sources.length > 0 ? baseName(sources[0].metadata.name) : 'document';
+  return createPdfBlob(pages, options, {
+    filename: sources[0]?.metadata.name,
+    properties: properties && { ...properties, title: properties.title || name },
+    bookmarks: collectBookmarks(sources, sources.length > 1)
+  });
+}
@@ -0,0 +1,134 @@
+// Node side of the library: a render backend on @napi-rs/canvas, the CJK
+// font read from disk and sources loaded from files. @napi-rs/canvas is an
+// optional dependency, loaded only once the Node backend is used.
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Canvas, Image } from '@napi-rs/canvas';
+import { SourceImage } from '../types';
+import { RenderBackend, RenderContext, RenderSurface, setRenderBackend } from '../services/renderBackend';
+import { setCjkFontLoader } from '../services/fontService';
+
+// Font the browser build serves from public/fonts, resolved from this module so it works from lib/ and dist-lib/
+const DEFAULT_FONT_URL = new URL('../public/fonts/NotoSansSC-Regular.ttf', import.meta.url);
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif'
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(MIME_TYPES);
+
+// The canvas behind each surface created by the Node backend
+const nodeCanvases = new WeakMap<RenderSurface, Canvas>();
+
+type CanvasModule = typeof import('@napi-rs/canvas');
+let canvasModule: CanvasModule | null = null;
+
+async function loadCanvasModule(): Promise<CanvasModule> {
+  if (!canvasModule) {
+    try {
+      canvasModule = await import('@napi-rs/canvas');
+    } catch (err) {
+      throw new Error(
+        'Rendering in Node needs the optional dependency @napi-rs/canvas, which is not installed. Run `npm install @napi-rs/canvas`.',
+        { cause: err }
+      );
+    }
+  }
+  return canvasModule;
+}
+
+// Surfaces are created synchronously, so the module has to be loaded by useNodeBackend first
+function loadedCanvasModule(): CanvasModule {
+  if (!canvasModule) throw new Error('Call useNodeBackend() before rendering with the Node backend');
+  return canvasModule;
+}
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  const comma = dataUrl.indexOf(',');
+  const payload = dataUrl.slice(comma + 1);
+  return dataUrl.slice(0, comma).endsWith(';base64')
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload));
+}
+
+export const nodeBackend: RenderBackend = {
+  createSurface(width, height) {
+    const canvas = loadedCanvasModule().createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    // SKRSContext2D implements the standard 2D API the renderer uses
+    const ctx = canvas.getContext('2d') as unknown as RenderContext;
+    const surface = { width: canvas.width, height: canvas.height, ctx };
+    nodeCanvases.set(surface, canvas);
+    return surface;
+  },
+
+  async decode(dataUrl) {
+    const image = await (await loadCanvasModule()).loadImage(decodeDataUrl(dataUrl));
+    return {
+      draw: async (ctx, sx, sy, sw, sh, dx, dy, dw, dh) => {
+        ctx.drawImage(image as unknown as CanvasImageSource, sx, sy, sw, sh, dx, dy, dw, dh);
+      },
+      close: () => {}
+    };
+  },
+
+  async encode(surface, type, quality) {
+    const canvas = nodeCanvases.get(surface);
+    if (!canvas) throw new Error('Surface was not created by the Node backend');
+    const buffer = type === 'image/png'
+      ? await canvas.encode('png')
+      : await canvas.encode('jpeg', Math.round((quality ?? 0.92) * 100));
+    return `data:${type};base64,${buffer.toString('base64')}`;
+  }
+};
+
+export interface NodeBackendOptions {
+  fontPath?: string; // TrueType font with CJK glyphs for headers, footers and watermarks
+}
+
+/**
+ * Renders with @napi-rs/canvas and reads the CJK font from disk. Call once
+ * before converting anything; rejects when @napi-rs/canvas is not installed.
+ */
+export async function useNodeBackend({ fontPath }: NodeBackendOptions = {}) {
+  await loadCanvasModule();
+  setRenderBackend(nodeBackend);
+  setCjkFontLoader(async () => {
+    const data = await readFile(fontPath ?? DEFAULT_FONT_URL);
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  });
+}
+
+/**
+ * Reads an image file into a source entry
+ */
+export async function readSourceImage(filePath: string): Promise<SourceImage> {
+  const type = MIME_TYPES[extname(filePath).toLowerCase()];
+  if (!type) throw new Error(`不支持的图片格式: ${filePath}`);
+  const data = await readFile(filePath);
+
+  const { loadImage } = await loadCanvasModule();
+  let image: Image;
+  try {
+    image = await loadImage(data);
+  } catch {
+    throw new Error(`无法解码图片: ${filePath}`);
+  }
+  return {
+    id: randomUUID(),
+    dataUrl: `data:${type};base64,${data.toString('base64')}`,
+    metadata: {
+      name: basename(filePath),
+      width: image.width,
+      height: image.height,
+      type,
+      size: data.byteLength
+    }
+  };
+}
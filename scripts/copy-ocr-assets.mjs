@@ -0,0 +1,45 @@
+// Copies the Tesseract worker, WASM core and language data into public/
+// so OCR runs fully offline without fetching anything from a CDN.
+// Runs as postinstall, so a missing package only warns: installs that leave
+// packages out (e.g. --omit) must still succeed; OCR then fails when it is
+// used.
+import { cpSync, mkdirSync, readdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+const target = path.resolve('public/tesseract');
+
+function packageDir(name) {
+  try {
+    return path.dirname(require.resolve(`${name}/package.json`));
+  } catch {
+    console.warn(`${name} is not installed, OCR will not work offline without it`);
+    return null;
+  }
+}
+
+mkdirSync(path.join(target, 'core'), { recursive: true });
+mkdirSync(path.join(target, 'lang'), { recursive: true });
+
+const tesseractDir = packageDir('tesseract.js');
+if (tesseractDir) {
+  cpSync(path.join(tesseractDir, 'dist/worker.min.js'), path.join(target, 'worker.min.js'));
+}
+
+const coreDir = packageDir('tesseract.js-core');
+if (coreDir) {
+  for (const file of readdirSync(coreDir)) {
+    if (/^tesseract-core.*\.(js|wasm)$/.test(file)) {
+      cpSync(path.join(coreDir, file), path.join(target, 'core', file));
+    }
+  }
+}
+
+for (const lang of ['chi_sim', 'eng']) {
+  const dataDir = packageDir(`@tesseract.js-data/${lang}`);
+  if (!dataDir) continue;
+  cpSync(path.join(dataDir, '4.0.0_best_int', `${lang}.traineddata.gz`), path.join(target, 'lang', `${lang}.traineddata.gz`));
+}
+
+console.log(`OCR assets copied to ${path.relative(process.cwd(), target)}`);
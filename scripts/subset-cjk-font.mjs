@@ -0,0 +1,51 @@
+// Generates public/fonts/NotoSansSC-Regular.ttf, the font Chinese text is
+// embedded with: Noto Sans SC Regular from @expo-google-fonts/noto-sans-sc
+// cut down to ASCII, Latin-1, the GB2312 character set and CJK punctuation,
+// which keeps it at about 2.3 MB instead of 10.
+// Runs as postinstall, so missing dev dependencies only warn: production
+// installs must still succeed; export then fails when it needs the font.
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+const target = path.resolve('public/fonts/NotoSansSC-Regular.ttf');
+
+let source;
+let subsetFont;
+try {
+  source = path.join(
+    path.dirname(require.resolve('@expo-google-fonts/noto-sans-sc/package.json')),
+    '400Regular/NotoSansSC_400Regular.ttf'
+  );
+  subsetFont = (await import('subset-font')).default;
+} catch {
+  console.warn('@expo-google-fonts/noto-sans-sc or subset-font is not installed, Chinese text cannot be written to PDFs without them');
+  process.exit(0);
+}
+
+const range = (from, to) => Array.from({ length: to - from + 1 }, (_, i) => String.fromCharCode(from + i));
+
+// Every assigned two-byte GB2312 code: symbols, punctuation and 6763 hanzi
+const gb2312 = new TextDecoder('gb18030');
+const gbChars = [];
+for (let high = 0xa1; high <= 0xf7; high++) {
+  for (let low = 0xa1; low <= 0xfe; low++) {
+    const char = gb2312.decode(new Uint8Array([high, low]));
+    if (char.length === 1 && char !== '�') gbChars.push(char);
+  }
+}
+
+const text = [
+  ...range(0x20, 0x7e),
+  ...range(0xa0, 0xff),
+  ...gbChars,
+  ...range(0x3000, 0x303f), // CJK symbols and punctuation
+  ...range(0xff01, 0xff5e), // full-width forms
+  ...'·—‘’“”…€™'
+].join('');
+
+const subset = await subsetFont(readFileSync(source), text, { targetFormat: 'truetype' });
+mkdirSync(path.dirname(target), { recursive: true });
+writeFileSync(target, subset);
+console.log(`${path.relative(process.cwd(), target)}: ${new Set(text).size} characters, ${(subset.length / 1024 / 1024).toFixed(1)} MB`);
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { AiProvider } from '../types';
+import { analysisDestination, analyzeDocument, hasConsent, hasEnvGeminiKey } from './aiService';
+import { aiSettings } from './testFixtures';
+
+describe('analyzeDocument', () => {
+  it('refuses to run while AI is off', async () => {
+    await expect(analyzeDocument('data:image/png;base64,QUJD', 100, aiSettings())).rejects.toThrow('AI 分析已关闭');
+  });
+
+  // A key in .env.local is used as the fallback, which would reach the real API
+  it.skipIf(hasEnvGeminiKey())('refuses Gemini without an API key instead of calling it', async () => {
+    await expect(analyzeDocument('data:image/png;base64,QUJD', 100, aiSettings({ provider: AiProvider.Gemini })))
+      .rejects.toThrow('未配置 Gemini API Key');
+  });
+});
+
+describe('consent', () => {
+  it('is tied to the destination, so switching it asks again', () => {
+    const gemini = aiSettings({ provider: AiProvider.Gemini });
+    const destination = analysisDestination(gemini);
+    expect(destination).toBe('Google Gemini (gemini-test)');
+    expect(hasConsent({ ...gemini, consentedTo: destination })).toBe(true);
+    expect(hasConsent({ ...gemini, geminiModel: 'other', consentedTo: destination })).toBe(false);
+    expect(analysisDestination(aiSettings())).toBeNull();
+  });
+});
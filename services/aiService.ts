@@ -0,0 +1,103 @@
+// Picks the AI backend chosen in settings and remembers those settings
+import { AiProvider, AiSettings, DocumentAnalysis } from '../types';
+import * as gemini from './geminiService';
+import * as openAi from './openAiService';
+
+const STORAGE_KEY = 'longimg2pdf.ai';
+// Build-time key from .env.local; only used while no key is set in the
+// settings and never written to localStorage
+const ENV_GEMINI_API_KEY = process.env.API_KEY ?? '';
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: AiProvider.Disabled,
+  geminiApiKey: '',
+  geminiModel: gemini.DEFAULT_GEMINI_MODEL,
+  endpoint: 'http://localhost:11434/v1',
+  model: 'qwen2.5vl',
+  apiKey: '',
+  consentedTo: null
+};
+
+/**
+ * Whether Gemini can run without a key in the settings, using the one from .env.local
+ */
+export function hasEnvGeminiKey(): boolean {
+  return ENV_GEMINI_API_KEY !== '';
+}
+
+// Key used for Gemini: the one set by the user, else the build-time one
+function geminiApiKey(settings: AiSettings): string {
+  return settings.geminiApiKey || ENV_GEMINI_API_KEY;
+}
+
+// Earlier versions stored the .env.local key as if the user had entered it
+function withoutEnvKey(settings: AiSettings): AiSettings {
+  return ENV_GEMINI_API_KEY && settings.geminiApiKey === ENV_GEMINI_API_KEY
+    ? { ...settings, geminiApiKey: '' }
+    : settings;
+}
+
+export function loadAiSettings(): AiSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? withoutEnvKey({ ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) }) : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function saveAiSettings(settings: AiSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(withoutEnvKey(settings)));
+  } catch (err) {
+    console.warn("Could not persist AI settings", err);
+  }
+}
+
+/**
+ * Where images are sent with the current settings, or null when AI is off.
+ * Consent is tied to this value, so switching the destination asks again.
+ */
+export function analysisDestination(settings: AiSettings): string | null {
+  switch (settings.provider) {
+    case AiProvider.Gemini:
+      return `Google Gemini (${settings.geminiModel})`;
+    case AiProvider.OpenAiCompatible:
+      return `${settings.endpoint} (${settings.model})`;
+    default:
+      return null;
+  }
+}
+
+export function hasConsent(settings: AiSettings): boolean {
+  const destination = analysisDestination(settings);
+  return destination !== null && settings.consentedTo === destination;
+}
+
+/**
+ * Runs the document analysis with the configured provider.
+ * Throws when AI is disabled or misconfigured instead of inventing a result.
+ */
+export async function analyzeDocument(
+  dataUrl: string,
+  imageHeight: number,
+  settings: AiSettings
+): Promise<DocumentAnalysis> {
+  switch (settings.provider) {
+    case AiProvider.Gemini: {
+      const apiKey = geminiApiKey(settings);
+      if (!apiKey) throw new Error("未配置 Gemini API Key");
+      return gemini.analyzeDocument(
+        dataUrl,
+        imageHeight,
+        gemini.createGeminiClient(apiKey),
+        settings.geminiModel
+      );
+    }
+    case AiProvider.OpenAiCompatible:
+      if (!settings.endpoint || !settings.model) throw new Error("未配置本地模型地址或名称");
+      return openAi.analyzeDocument(dataUrl, imageHeight, settings);
+    default:
+      throw new Error("AI 分析已关闭");
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalysis, splitDataUrl } from './analysisService';
+
+describe('parseAnalysis', () => {
+  it('converts positions from the 0-1000 scale to source rows', () => {
+    const text = JSON.stringify({
+      summary: ' 聊天记录 ',
+      sections: [{ title: '第二节', y: 600 }, { title: '第一节', y: 100 }],
+      safeCuts: [250, 500]
+    });
+    expect(parseAnalysis(text, 2000)).toEqual({
+      summary: '聊天记录',
+      sections: [{ title: '第一节', y: 200 }, { title: '第二节', y: 1200 }],
+      safeCuts: [500, 1000]
+    });
+  });
+
+  it('accepts JSON wrapped in a markdown code fence', () => {
+    const text = '```json\n{"summary":"文档","sections":[],"safeCuts":[500]}\n```';
+    expect(parseAnalysis(text, 1000).safeCuts).toEqual([500]);
+  });
+
+  it('drops malformed sections and cuts at the image edges', () => {
+    const text = JSON.stringify({
+      summary: 42,
+      sections: [{ title: '', y: 10 }, { title: '无位置' }, null, { title: '超出', y: 1500 }],
+      safeCuts: [0, 1000, 1200, 'x', 300, 300]
+    });
+    expect(parseAnalysis(text, 1000)).toEqual({
+      summary: '',
+      sections: [{ title: '超出', y: 1000 }],
+      safeCuts: [300]
+    });
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parseAnalysis('无法分析这张图片', 1000)).toThrow();
+  });
+});
+
+describe('splitDataUrl', () => {
+  it('separates the MIME type from the payload', () => {
+    expect(splitDataUrl('data:image/webp;base64,AAAA')).toEqual({ mimeType: 'image/webp', base64: 'AAAA' });
+  });
+});
@@ -0,0 +1,55 @@
+// Prompt and response handling shared by all AI providers
+import { Bookmark, DocumentAnalysis } from '../types';
+
+// Positions are exchanged on a 0-1000 scale so they do not depend on how
+// far the model downsamples the image
+export const POSITION_SCALE = 1000;
+
+export const ANALYSIS_PROMPT = [
+  "分析这张长图的结构，按 JSON 返回：",
+  "summary：用中文简要描述内容（网页、聊天记录还是技术文档等），40字以内；",
+  "sections：从上到下的章节或小标题，title 保持原文，y 为标题顶部的纵向位置；",
+  "safeCuts：适合分页的纵向位置，必须位于段落或消息之间的空白处，不能穿过文字或图片。",
+  `所有位置都用 0 到 ${POSITION_SCALE} 表示，0 为图片顶部，${POSITION_SCALE} 为底部。`,
+  '格式：{"summary": "...", "sections": [{"title": "...", "y": 0}], "safeCuts": [0]}'
+].join("\n");
+
+/**
+ * Splits a data URL into its MIME type and base64 payload
+ */
+export function splitDataUrl(dataUrl: string): { mimeType: string; base64: string } {
+  const [header, base64] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/png', base64 };
+}
+
+const toRow = (position: unknown, imageHeight: number) =>
+  typeof position === 'number' && Number.isFinite(position)
+    ? Math.round((Math.min(POSITION_SCALE, Math.max(0, position)) / POSITION_SCALE) * imageHeight)
+    : null;
+
+/**
+ * Validates the model's JSON and converts positions to source rows.
+ * Tolerates a markdown code fence around the JSON, which local models often add.
+ */
+export function parseAnalysis(text: string, imageHeight: number): DocumentAnalysis {
+  const raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+
+  const sections: Bookmark[] = [];
+  for (const section of Array.isArray(raw.sections) ? raw.sections : []) {
+    const title = typeof section?.title === 'string' ? section.title.trim() : '';
+    const y = toRow(section?.y, imageHeight);
+    if (title && y !== null) sections.push({ title, y });
+  }
+
+  const safeCuts = new Set<number>();
+  for (const cut of Array.isArray(raw.safeCuts) ? raw.safeCuts : []) {
+    const y = toRow(cut, imageHeight);
+    if (y !== null && y > 0 && y < imageHeight) safeCuts.add(y);
+  }
+
+  return {
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    sections: sections.sort((a, b) => a.y - b.y),
+    safeCuts: [...safeCuts].sort((a, b) => a - b)
+  };
+}
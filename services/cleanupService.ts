@@ -0,0 +1,257 @@
+// Detection of screenshot chrome (uniform side margins, sticky bars repeated
+// by scroll stitching) and the row mapping between a source and its cleaned view.
+// Pure functions over sampled pixels, so they run in the worker and the page.
+import { CleanupOptions, KeepRegion, SourceView } from '../types';
+
+// Columns each row is averaged down to for comparing rows
+export const ROW_SIGNATURE_COLUMNS = 64;
+// Mean grey difference up to which two row signatures count as the same
+const ROW_TOLERANCE = 4;
+// Grey spread within a row that marks it as having content rather than plain background
+const TEXTURED_SPREAD = 24;
+// Rows at the edge of the content used to look for repeats of a bar
+const ANCHOR_ROWS = 24;
+// Textured rows an anchor needs; plain background repeats everywhere
+const MIN_TEXTURED_ANCHOR_ROWS = 4;
+// Longest bar removed, relative to the image width (a header is never taller than this)
+const MAX_BAR_RATIO = 0.4;
+// Grey spread within a column that still counts as a uniform margin
+const MARGIN_TOLERANCE = 6;
+
+/**
+ * Row signatures and per-column grey range of a source, as produced by the
+ * renderer's sampling pass
+ */
+export interface SourceSample {
+  signatures: Uint8Array; // height x ROW_SIGNATURE_COLUMNS grey values
+  columnMin: Uint8Array; // darkest grey per sampled column
+  columnMax: Uint8Array; // brightest grey per sampled column
+}
+
+export function needsSample(cleanup: CleanupOptions): boolean {
+  return cleanup.trimSides || cleanup.removeRepeatedBars;
+}
+
+function rowsEqual(signatures: Uint8Array, a: number, b: number): boolean {
+  const cols = ROW_SIGNATURE_COLUMNS;
+  let diff = 0;
+  for (let i = 0; i < cols; i++) {
+    diff += Math.abs(signatures[a * cols + i] - signatures[b * cols + i]);
+  }
+  return diff / cols <= ROW_TOLERANCE;
+}
+
+function isTextured(signatures: Uint8Array, row: number): boolean {
+  const cols = ROW_SIGNATURE_COLUMNS;
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < cols; i++) {
+    const value = signatures[row * cols + i];
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return max - min >= TEXTURED_SPREAD;
+}
+
+export function hasTexture(signatures: Uint8Array, start: number, end: number): boolean {
+  let count = 0;
+  for (let row = start; row < end; row++) {
+    if (isTextured(signatures, row)) count++;
+  }
+  return count >= MIN_TEXTURED_ANCHOR_ROWS;
+}
+
+/**
+ * Columns to drop on the left and right, in source pixels. A margin is a run
+ * of columns from the edge that all have the edge's single colour. Rounded
+ * inwards so content is never cut.
+ */
+export function findSideMargins(sample: SourceSample, width: number): { left: number; right: number } {
+  const { columnMin, columnMax } = sample;
+  const columns = columnMin.length;
+  const uniformLike = (col: number, ref: number) =>
+    columnMax[col] - columnMin[col] <= MARGIN_TOLERANCE
+    && Math.abs(columnMin[col] - columnMin[ref]) <= MARGIN_TOLERANCE;
+
+  let left = 0;
+  while (left < columns && uniformLike(left, 0)) left++;
+  let right = 0;
+  while (right < columns - left && uniformLike(columns - 1 - right, columns - 1)) right++;
+
+  // A blank image has no content to trim towards
+  if (left + right >= columns) return { left: 0, right: 0 };
+
+  const pxPerColumn = width / columns;
+  return {
+    left: Math.max(0, Math.floor((left - 1) * pxPerColumn)),
+    right: Math.max(0, Math.floor((right - 1) * pxPerColumn))
+  };
+}
+
+/**
+ * Finds later copies of the bar at the top of the content (a sticky header)
+ * and earlier copies of the bar at its bottom (a sticky footer or tab bar).
+ * Copies are extended over the cropped chrome next to them, so a duplicated
+ * status bar above a duplicated header goes too. The originals are kept.
+ */
+export function findRepeatedBars(
+  sample: SourceSample,
+  width: number,
+  height: number,
+  contentTop: number,
+  contentBottom: number
+): KeepRegion[] {
+  const sig = sample.signatures;
+  const maxBar = Math.round(width * MAX_BAR_RATIO);
+  const bars: KeepRegion[] = [];
+  if (contentBottom - contentTop < ANCHOR_ROWS * 3) return bars;
+
+  const matches = (at: number, anchor: number) => {
+    for (let i = 0; i < ANCHOR_ROWS; i++) {
+      if (!rowsEqual(sig, at + i, anchor + i)) return false;
+    }
+    return true;
+  };
+
+  // Sticky header: copies of the rows just below the top crop
+  if (hasTexture(sig, contentTop, contentTop + ANCHOR_ROWS)) {
+    let p = contentTop + ANCHOR_ROWS;
+    while (p + ANCHOR_ROWS <= contentBottom) {
+      if (!matches(p, contentTop)) {
+        p++;
+        continue;
+      }
+      let after = ANCHOR_ROWS;
+      while (after < maxBar && p + after < contentBottom && contentTop + after < p
+        && rowsEqual(sig, p + after, contentTop + after)) after++;
+      let before = 0;
+      while (before < contentTop && rowsEqual(sig, p - before - 1, contentTop - before - 1)) before++;
+      bars.push({ start: p - before, end: p + after });
+      p += after;
+    }
+  }
+
+  // Sticky footer: copies of the rows just above the bottom crop
+  const footer = contentBottom - ANCHOR_ROWS;
+  if (hasTexture(sig, footer, contentBottom)) {
+    let p = footer - ANCHOR_ROWS;
+    while (p >= contentTop) {
+      if (!matches(p, footer)) {
+        p--;
+        continue;
+      }
+      let before = 0;
+      while (before < maxBar && p - before - 1 >= contentTop && footer - before - 1 > p + ANCHOR_ROWS
+        && rowsEqual(sig, p - before - 1, footer - before - 1)) before++;
+      let after = ANCHOR_ROWS;
+      while (contentBottom + (after - ANCHOR_ROWS) < height && p + after < footer
+        && rowsEqual(sig, p + after, contentBottom + (after - ANCHOR_ROWS))) after++;
+      bars.push({ start: p - before, end: p + after });
+      p -= before + ANCHOR_ROWS;
+    }
+  }
+
+  return mergeRegions(bars);
+}
+
+function mergeRegions(regions: KeepRegion[]): KeepRegion[] {
+  const sorted = [...regions].sort((a, b) => a.start - b.start);
+  const merged: KeepRegion[] = [];
+  for (const region of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && region.start <= last.end) {
+      last.end = Math.max(last.end, region.end);
+    } else {
+      merged.push({ ...region });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Combines the crop settings with detected margins and bars into the view
+ * that is paginated. Without a sample only the fixed crops apply.
+ */
+export function buildSourceView(
+  width: number,
+  height: number,
+  cleanup: CleanupOptions,
+  sample?: SourceSample
+): SourceView {
+  // Always keep at least a sliver of the image
+  const top = Math.min(Math.max(0, Math.round(cleanup.cropTop)), height - 1);
+  const bottom = Math.max(top + 1, height - Math.max(0, Math.round(cleanup.cropBottom)));
+
+  let left = 0;
+  let right = width;
+  if (sample && cleanup.trimSides) {
+    const margins = findSideMargins(sample, width);
+    left = margins.left;
+    right = width - margins.right;
+  }
+
+  const bars = sample && cleanup.removeRepeatedBars
+    ? findRepeatedBars(sample, width, height, top, bottom)
+    : [];
+
+  const spans: KeepRegion[] = [];
+  let cursor = top;
+  for (const bar of bars) {
+    const start = Math.max(bar.start, top);
+    if (start > cursor) spans.push({ start: cursor, end: start });
+    cursor = Math.max(cursor, Math.min(bar.end, bottom));
+  }
+  if (cursor < bottom) spans.push({ start: cursor, end: bottom });
+
+  return { left, right, spans };
+}
+
+export function fullView(width: number, height: number): SourceView {
+  return { left: 0, right: width, spans: [{ start: 0, end: height }] };
+}
+
+export function viewHeight(view: SourceView): number {
+  return view.spans.reduce((sum, span) => sum + span.end - span.start, 0);
+}
+
+/**
+ * Position in the view of a source row; rows inside removed ranges collapse
+ * onto the next kept row
+ */
+export function toViewRow(view: SourceView, y: number): number {
+  let row = 0;
+  for (const span of view.spans) {
+    if (y <= span.start) return row;
+    if (y < span.end) return row + y - span.start;
+    row += span.end - span.start;
+  }
+  return row;
+}
+
+/**
+ * Source row shown at a position in the view
+ */
+export function toSourceRow(view: SourceView, row: number): number {
+  let offset = row;
+  for (const span of view.spans) {
+    const length = span.end - span.start;
+    if (offset < length) return span.start + offset;
+    offset -= length;
+  }
+  const last = view.spans[view.spans.length - 1];
+  return last ? last.end : 0;
+}
+
+/**
+ * Source row ranges between the kept spans that fall in [start, end)
+ */
+export function removedBetween(view: SourceView, start: number, end: number): KeepRegion[] {
+  const removed: KeepRegion[] = [];
+  for (let i = 1; i < view.spans.length; i++) {
+    const gap = { start: view.spans[i - 1].end, end: view.spans[i].start };
+    if (gap.start < end && gap.end > start) {
+      removed.push({ start: Math.max(gap.start, start), end: Math.min(gap.end, end) });
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { PageEncoding } from '../types';
+import { choosePageEncoding } from './encodingService';
+
+type Rgb = [number, number, number];
+
+// RGBA pixels in which every 7th pixel, the ones classification samples, has the given colour
+function sampledPixels(colours: Rgb[]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(colours.length * 7 * 4);
+  colours.forEach((colour, idx) => {
+    for (let k = 0; k < 7; k++) data.set([...colour, 255], (idx * 7 + k) * 4);
+  });
+  return data;
+}
+
+// Colours in distinct 4-bit buckets, all far from grey
+const vivid = (count: number): Rgb[] => Array.from({ length: count }, (_, idx) => {
+  const r = (idx % 16) * 16;
+  const g = (Math.floor(idx / 16) % 16) * 16;
+  // Blue opposite the brighter of red and green; later rounds use a nearer blue
+  const far = idx < 256;
+  return [r, g, r + g < 256 ? (far ? 255 : 200) : (far ? 0 : 60)];
+});
+
+// Greys with channels at most 18 apart that still fall into more than 256 buckets
+function manyGreys(): Rgb[] {
+  const buckets = new Map<number, Rgb>();
+  for (let r = 0; r < 256; r++) {
+    for (const g of [r - 18, r - 9, r, r + 9, r + 18]) {
+      for (const b of [r - 18, r - 9, r, r + 9, r + 18]) {
+        if (g < 0 || b < 0 || g > 255 || b > 255 || Math.max(r, g, b) - Math.min(r, g, b) > 18) continue;
+        buckets.set(((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4), [r, g, b]);
+      }
+    }
+  }
+  return [...buckets.values()];
+}
+
+// `grey` sampled grey pixels followed by `others`
+function mixed(grey: number, others: Rgb[]): Uint8ClampedArray {
+  const greys = manyGreys();
+  return sampledPixels([...Array.from({ length: grey }, (_, idx) => greys[idx % greys.length]), ...others]);
+}
+
+describe('choosePageEncoding', () => {
+  it('keeps flat pages of up to 256 colours lossless', () => {
+    expect(choosePageEncoding(sampledPixels(vivid(256)))).toBe(PageEncoding.Png);
+    expect(choosePageEncoding(sampledPixels(vivid(257)))).toBe(PageEncoding.Jpeg);
+  });
+
+  it('encodes pages as greyscale from 98.5% grey pixels', () => {
+    expect(manyGreys().length).toBeGreaterThan(256);
+    expect(choosePageEncoding(mixed(985, vivid(15)))).toBe(PageEncoding.Grayscale);
+    expect(choosePageEncoding(mixed(984, vivid(16)))).toBe(PageEncoding.Jpeg);
+  });
+
+  it('treats channels up to 18 apart as grey', () => {
+    const pixels = (colour: Rgb) => Array.from({ length: 30 }, (): Rgb => colour);
+    expect(choosePageEncoding(mixed(970, pixels([100, 118, 100])))).toBe(PageEncoding.Grayscale);
+    expect(choosePageEncoding(mixed(970, pixels([100, 119, 100])))).toBe(PageEncoding.Jpeg);
+  });
+});
@@ -0,0 +1,56 @@
+// Pixel-level helpers for choosing and applying a page's output encoding.
+import { PageEncoding } from '../types';
+
+// Only every n-th pixel is inspected when classifying a page
+const SAMPLE_STRIDE = 7;
+// Flat UI/text screenshots rarely exceed this many 4-bit-per-channel colours
+const MAX_FLAT_COLOURS = 256;
+// Channel spread below which a pixel is considered grey
+const GREY_SPREAD = 18;
+// Share of pixels that must be grey for a page to be encoded as greyscale
+const GREY_RATIO = 0.985;
+// Luminance threshold for black-and-white conversion
+const BW_THRESHOLD = 160;
+
+/**
+ * Picks an encoding for a page in auto mode: lossless PNG for flat text and
+ * UI content, greyscale JPEG for colourless photos and scans, JPEG otherwise.
+ */
+export function choosePageEncoding(data: Uint8ClampedArray): PageEncoding {
+  const colours = new Set<number>();
+  let greyPixels = 0;
+  let sampled = 0;
+
+  for (let i = 0; i < data.length; i += 4 * SAMPLE_STRIDE) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    sampled++;
+    if (Math.max(r, g, b) - Math.min(r, g, b) <= GREY_SPREAD) greyPixels++;
+    if (colours.size <= MAX_FLAT_COLOURS) {
+      colours.add(((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4));
+    }
+  }
+
+  if (colours.size <= MAX_FLAT_COLOURS) return PageEncoding.Png;
+  if (sampled > 0 && greyPixels / sampled >= GREY_RATIO) return PageEncoding.Grayscale;
+  return PageEncoding.Jpeg;
+}
+
+/**
+ * Luminance of RGBA pixels, one byte per pixel
+ */
+export function toLuminance(data: Uint8ClampedArray): Uint8Array {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+/**
+ * Thresholds luminance to pure black and white in place
+ */
+export function toBlackWhite(gray: Uint8Array) {
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = gray[i] < BW_THRESHOLD ? 0 : 255;
+  }
+}
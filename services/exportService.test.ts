@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { LastPageMode } from '../types';
+import { createBlobSink, exportHtml } from './exportService';
+import { pdfOptions, processedPage } from './testFixtures';
+
+describe('exportHtml', () => {
+  it('prints each sheet size on its own paper', async () => {
+    let blob: Blob | null = null;
+    const sink = createBlobSink('text/html', result => { blob = result; });
+    // The shortened last page ends 80mm of content into its sheet
+    const pages = [processedPage(), processedPage({ sourceY: 1385 }), processedPage({ sourceY: 2770, contentHeight: 400 })];
+    await exportHtml(sink, pages, pdfOptions({ lastPage: LastPageMode.Shrink }), {});
+    await sink.close();
+    const html = await blob!.text();
+
+    expect(html).toContain('@page sheet-size-1 { size: 210mm 297mm; }');
+    expect(html).toContain('@page sheet-size-2 { size: 210mm 100mm; }');
+    expect(html.match(/<section class="sheet" style="page:[\w-]+/g)).toEqual([
+      '<section class="sheet" style="page:sheet-size-1',
+      '<section class="sheet" style="page:sheet-size-1',
+      '<section class="sheet" style="page:sheet-size-2'
+    ]);
+  });
+});
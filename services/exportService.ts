@@ -0,0 +1,403 @@
+// Export targets: PDF, a ZIP of numbered page images and a printable HTML
+// file. Every target writes through a sink, which streams to disk when the
+// browser can save files directly and collects a download otherwise.
+import { Zip, ZipPassThrough } from 'fflate';
+import {
+  DocumentProperties, ExportTarget, ImageExportFormat, PdfOptions, ProcessedPage,
+  SourceImage, WatermarkType
+} from '../types';
+import { createPdfBlob, collectBookmarks, fillTemplate, layoutSheets, sheetFrames, PdfContext, Sheet } from './pdfService';
+import { getRenderBackend } from './renderBackend';
+import { baseName } from './imageService';
+
+export const EXPORT_FILES: Record<ExportTarget, { extension: string; mimeType: string }> = {
+  [ExportTarget.Pdf]: { extension: '.pdf', mimeType: 'application/pdf' },
+  [ExportTarget.Images]: { extension: '.zip', mimeType: 'application/zip' },
+  [ExportTarget.Html]: { extension: '.html', mimeType: 'text/html' }
+};
+
+// Fewest digits in page image numbers, so names sort correctly
+const MIN_NUMBER_DIGITS = 3;
+// Header/footer and watermark style in the HTML export, matching the PDF
+const HTML_DECORATION_FONT_PT = 9;
+const HTML_WATERMARK_TEXT_RATIO = 0.07;
+const HTML_WATERMARK_IMAGE_RATIO = 0.5;
+const MM_PER_PT = 25.4 / 72;
+
+export interface ExportSink {
+  write: (chunk: Uint8Array | string) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+  bytesWritten: () => number;
+}
+
+const encoder = new TextEncoder();
+
+function countingSink(write: (chunk: Uint8Array) => Promise<void>, close: () => Promise<void>, abort: () => Promise<void>): ExportSink {
+  let bytes = 0;
+  return {
+    write: async (chunk) => {
+      const data = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      bytes += data.byteLength;
+      await write(data);
+    },
+    close,
+    abort,
+    bytesWritten: () => bytes
+  };
+}
+
+/**
+ * Sink that keeps the chunks and hands them over as one Blob on close. The
+ * whole output is held in memory until then, so this is the fallback for
+ * browsers without the File System Access API (Firefox, Safari).
+ */
+export function createBlobSink(mimeType: string, onClose: (blob: Blob) => void): ExportSink {
+  let parts: BlobPart[] = [];
+  return countingSink(
+    async (chunk) => {
+      parts.push(chunk as Uint8Array<ArrayBuffer>);
+    },
+    async () => {
+      onClose(new Blob(parts, { type: mimeType }));
+      parts = [];
+    },
+    async () => {
+      parts = [];
+    }
+  );
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Frame the last printed PDF is loaded in; kept until the next print since
+// removing it closes the dialog
+let printFrame: { iframe: HTMLIFrameElement; url: string } | null = null;
+
+/**
+ * Opens a PDF in the browser's print dialog through a hidden frame. Where
+ * the built-in viewer cannot be scripted (Safari, some mobile browsers) the
+ * PDF opens in a new tab to print from there.
+ */
+export function printPdf(blob: Blob) {
+  if (printFrame) {
+    printFrame.iframe.remove();
+    URL.revokeObjectURL(printFrame.url);
+  }
+  const url = URL.createObjectURL(blob);
+  const iframe = document.createElement('iframe');
+  iframe.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden';
+  iframe.onload = () => {
+    try {
+      iframe.contentWindow?.focus();
+      iframe.contentWindow?.print();
+    } catch {
+      window.open(url, '_blank');
+    }
+  };
+  iframe.src = url;
+  document.body.appendChild(iframe);
+  printFrame = { iframe, url };
+}
+
+// File System Access API, not yet part of the DOM typings
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * Asks where to save and writes straight to that file where supported;
+ * elsewhere the output is collected and downloaded when the sink closes.
+ * Must be called while handling the click (the picker needs user activation).
+ * Rejects with an AbortError when the user cancels the picker.
+ */
+export async function openDownloadSink(fileName: string, mimeType: string): Promise<ExportSink> {
+  const extension = fileName.slice(fileName.lastIndexOf('.'));
+  const description = extension.slice(1).toUpperCase();
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) {
+    return createBlobSink(mimeType, blob => downloadBlob(blob, fileName));
+  }
+
+  const handle = await picker({ suggestedName: fileName, types: [{ description, accept: { [mimeType]: [extension] } }] });
+  const writable = await handle.createWritable();
+  return countingSink(
+    chunk => writable.write(chunk as Uint8Array<ArrayBuffer>),
+    () => writable.close(),
+    () => writable.abort()
+  );
+}
+
+async function writeBlob(sink: ExportSink, blob: Blob) {
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    await sink.write(value);
+  }
+}
+
+interface ZipWriter {
+  add: (name: string, data: Uint8Array | Blob) => Promise<void>;
+  finish: () => Promise<void>;
+}
+
+/**
+ * Writes a ZIP archive into the sink one entry at a time: each file is
+ * written out as soon as it is added, so only the entry being added is held
+ * in memory. Entries are stored uncompressed; images and PDFs are
+ * compressed already.
+ */
+function openZip(sink: ExportSink): ZipWriter {
+  let pending = Promise.resolve();
+  const zip = new Zip((err, chunk) => {
+    pending = pending.then(() => {
+      if (err) throw err;
+      return sink.write(chunk);
+    });
+  });
+  return {
+    add: async (name, data) => {
+      const entry = new ZipPassThrough(name);
+      zip.add(entry);
+      entry.push(data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data, true);
+      await pending;
+    },
+    finish: async () => {
+      zip.end();
+      await pending;
+    }
+  };
+}
+
+async function dataUrlBytes(dataUrl: string): Promise<Uint8Array> {
+  return new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+}
+
+/**
+ * A page image in the requested format, cut to its content (without the
+ * white padding below a short last page). Pages already in the right shape
+ * are passed through untouched.
+ */
+async function pageImage(
+  page: ProcessedPage,
+  format: ImageExportFormat,
+  quality: number
+): Promise<{ data: Uint8Array; extension: string }> {
+  const target = format === 'original' ? page.format : format;
+  const extension = target === 'PNG' ? 'png' : 'jpg';
+  if (target === page.format && page.contentHeight >= page.height) {
+    return { data: await dataUrlBytes(page.dataUrl), extension };
+  }
+
+  const backend = getRenderBackend();
+  const image = await backend.decode(page.dataUrl, page.width);
+  try {
+    const surface = backend.createSurface(page.width, page.contentHeight);
+    surface.ctx.fillStyle = 'white';
+    surface.ctx.fillRect(0, 0, surface.width, surface.height);
+    await image.draw(surface.ctx, 0, 0, page.width, page.contentHeight, 0, 0, page.width, page.contentHeight);
+    const type = target === 'PNG' ? 'image/png' : 'image/jpeg';
+    return { data: await dataUrlBytes(await backend.encode(surface, type, quality)), extension };
+  } finally {
+    image.close();
+  }
+}
+
+function numberWidth(count: number): number {
+  return Math.max(MIN_NUMBER_DIGITS, String(count).length);
+}
+
+// "01-name/" folders keep the chosen source order and keep equal names apart
+function sourceFolder(source: SourceImage, idx: number): string {
+  return `${String(idx + 1).padStart(2, '0')}-${baseName(source.metadata.name)}`;
+}
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  quality: number; // for JPEG
+  perSource: boolean; // one folder per source, numbered from 1 in each
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Writes a ZIP of numbered page images (001.png, 002.jpg, ...), each page
+ * written out as soon as it is encoded
+ */
+export async function exportImages(
+  sink: ExportSink,
+  pages: ProcessedPage[],
+  sources: SourceImage[],
+  { format, quality, perSource, onProgress }: ImageExportOptions
+): Promise<void> {
+  const zip = openZip(sink);
+  const groups = perSource
+    ? sources.map((source, idx) => ({
+      folder: `${sourceFolder(source, idx)}/`,
+      pages: pages.filter(page => page.sourceId === source.id)
+    }))
+    : [{ folder: '', pages }];
+
+  let done = 0;
+  for (const group of groups) {
+    const digits = numberWidth(group.pages.length);
+    for (const [idx, page] of group.pages.entries()) {
+      const { data, extension } = await pageImage(page, format, quality);
+      await zip.add(`${group.folder}${String(idx + 1).padStart(digits, '0')}.${extension}`, data);
+      onProgress?.(++done, pages.length);
+    }
+  }
+  await zip.finish();
+}
+
+export async function exportPdf(
+  sink: ExportSink,
+  pages: ProcessedPage[],
+  options: PdfOptions,
+  context: PdfContext
+): Promise<void> {
+  await writeBlob(sink, await createPdfBlob(pages, options, context));
+}
+
+/**
+ * Builds one PDF per source and writes them as a ZIP archive
+ */
+export async function exportPdfPerSource(
+  sink: ExportSink,
+  pages: ProcessedPage[],
+  sources: SourceImage[],
+  options: PdfOptions,
+  properties?: DocumentProperties
+): Promise<void> {
+  const zip = openZip(sink);
+  for (const [idx, source] of sources.entries()) {
+    const sourcePages = pages.filter(page => page.sourceId === source.id);
+    if (sourcePages.length === 0) continue;
+
+    await zip.add(`${sourceFolder(source, idx)}.pdf`, await createPdfBlob(sourcePages, options, {
+      filename: source.metadata.name,
+      properties: properties && { ...properties, title: properties.title || baseName(source.metadata.name) },
+      bookmarks: collectBookmarks([source], false)
+    }));
+  }
+  await zip.finish();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+const mm = (value: number) => `${+value.toFixed(3)}mm`;
+const sheetSize = (sheet: Sheet) => `${mm(sheet.widthMm)} ${mm(sheet.heightMm)}`;
+
+/**
+ * Header, footer and watermark of one page as absolutely positioned HTML,
+ * placed like drawDecorations places them in the PDF
+ */
+function htmlDecorations(
+  options: PdfOptions,
+  widthMm: number,
+  heightMm: number,
+  scale: number,
+  values: Record<string, string | number>
+): string {
+  const { margin, headerTemplate, footerTemplate, watermark } = options;
+  const inset = Math.max((margin * scale) / 2, HTML_DECORATION_FONT_PT * MM_PER_PT);
+  const parts: string[] = [];
+  if (headerTemplate.trim()) {
+    parts.push(`<div class="deco" style="top:${mm(inset)}">${escapeHtml(fillTemplate(headerTemplate, values))}</div>`);
+  }
+  if (footerTemplate.trim()) {
+    parts.push(`<div class="deco" style="top:${mm(heightMm - inset)}">${escapeHtml(fillTemplate(footerTemplate, values))}</div>`);
+  }
+
+  if (watermark.type === WatermarkType.Text && watermark.text.trim()) {
+    const angle = -(Math.atan2(heightMm, widthMm) * 180) / Math.PI;
+    const size = Math.hypot(widthMm, heightMm) * HTML_WATERMARK_TEXT_RATIO;
+    parts.push(
+      `<div class="mark" style="opacity:${watermark.opacity};font-size:${mm(size)};transform:translate(-50%,-50%) rotate(${angle.toFixed(2)}deg)">`
+      + `${escapeHtml(watermark.text)}</div>`
+    );
+  } else if (watermark.type === WatermarkType.Image && watermark.imageDataUrl) {
+    parts.push(
+      `<img class="mark" alt="" src="${watermark.imageDataUrl}" `
+      + `style="opacity:${watermark.opacity};width:${mm(widthMm * HTML_WATERMARK_IMAGE_RATIO)};transform:translate(-50%,-50%)">`
+    );
+  }
+  return parts.join('');
+}
+
+/**
+ * Writes one self-contained HTML file with a sheet per PDF page, laid out
+ * in millimetres so printing it gives the same pages as the PDF. Sheets are
+ * written one at a time.
+ */
+export async function exportHtml(
+  sink: ExportSink,
+  pages: ProcessedPage[],
+  options: PdfOptions,
+  context: PdfContext
+): Promise<void> {
+  const sheets = layoutSheets(pages, options);
+  // Sheets can differ in size (a shortened last page), so each size gets a named @page rule
+  const pageNames = new Map<string, string>();
+  for (const sheet of sheets) {
+    const size = sheetSize(sheet);
+    if (!pageNames.has(size)) pageNames.set(size, `sheet-size-${pageNames.size + 1}`);
+  }
+  const pageRules = [...pageNames].map(([size, name]) => `@page ${name} { size: ${size}; }\n`).join('');
+  const title = context.properties?.title || (context.filename ? baseName(context.filename) : 'document');
+  const values = {
+    total: sheets.reduce((sum, sheet, idx) => sum + sheetFrames(sheet, idx).length, 0),
+    filename: context.filename ?? '',
+    date: new Date().toLocaleDateString('zh-CN')
+  };
+
+  await sink.write(`<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { margin: 0; }
+${pageRules}html, body { margin: 0; background: #e2e8f0; }
+.sheet { position: relative; overflow: hidden; margin: 24px auto; background: white; box-shadow: 0 4px 24px rgb(0 0 0 / 0.15); }
+.slot, .frame { position: absolute; overflow: hidden; }
+.slot img { display: block; }
+.deco { position: absolute; left: 0; right: 0; transform: translateY(-50%); text-align: center; font: ${HTML_DECORATION_FONT_PT}pt sans-serif; color: rgb(120 120 120); }
+.mark { position: absolute; left: 50%; top: 50%; white-space: nowrap; color: rgb(150 150 150); font-family: sans-serif; pointer-events: none; }
+@media print {
+  html, body { background: none; }
+  .sheet { margin: 0; box-shadow: none; break-after: page; }
+}
+</style>
+</head>
+<body>
+`);
+
+  for (const [idx, sheet] of sheets.entries()) {
+    const slots = sheet.placements.map(({ page, x, y, width, height, visibleHeight }) =>
+      `<div class="slot" style="left:${mm(x)};top:${mm(y)};width:${mm(width)};height:${mm(visibleHeight ?? height)}">`
+      + `<img alt="" src="${page.dataUrl}" style="width:${mm(width)};height:${mm(height)}"></div>`
+    ).join('');
+    // Each page of a booklet side is decorated inside its own frame
+    const decorations = sheetFrames(sheet, idx).map(frame =>
+      `<div class="frame" style="left:${mm(frame.x)};top:${mm(frame.y)};width:${mm(frame.width)};height:${mm(frame.height)}">`
+      + `${htmlDecorations(options, frame.width, frame.height, frame.scale, { ...values, page: frame.pageNumber })}</div>`
+    ).join('');
+    await sink.write(
+      `<section class="sheet" style="page:${pageNames.get(sheetSize(sheet))};width:${mm(sheet.widthMm)};height:${mm(sheet.heightMm)}">`
+      + `${slots}${decorations}</section>\n`
+    );
+  }
+
+  await sink.write('</body>\n</html>\n');
+}
@@ -0,0 +1,72 @@
+import { jsPDF } from 'jspdf';
+
+// jsPDF's built-in fonts only cover Latin-1. Chinese text is embedded with
+// the TrueType font npm install generates in public/fonts: Noto Sans SC
+// Regular subset to GB2312, Latin-1 and CJK punctuation (see
+// scripts/subset-cjk-font.mjs).
+const CJK_FONT_URL = '/fonts/NotoSansSC-Regular.ttf';
+const CJK_FONT_FILE = 'NotoSansSC-Regular.ttf';
+const CJK_FONT_NAME = 'NotoSansSC';
+const FALLBACK_FONT_NAME = 'helvetica';
+
+let fontDataPromise: Promise<string | null> | null = null;
+
+async function fetchFontFile(): Promise<ArrayBuffer> {
+  const res = await fetch(CJK_FONT_URL);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.arrayBuffer();
+}
+
+let loadFontFile: () => Promise<ArrayBuffer> = fetchFontFile;
+
+/**
+ * Replaces where the CJK font file comes from, e.g. reading it from disk in
+ * Node where there is no server to fetch it from
+ */
+export function setCjkFontLoader(loader: () => Promise<ArrayBuffer>) {
+  loadFontFile = loader;
+  fontDataPromise = null;
+}
+
+function fetchFontData(): Promise<string | null> {
+  if (!fontDataPromise) {
+    fontDataPromise = loadFontFile()
+      .then(buffer => {
+        // jsPDF's VFS expects a binary string
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return binary;
+      })
+      .catch(err => {
+        console.warn(`CJK font unavailable, falling back to ${FALLBACK_FONT_NAME}:`, err);
+        return null;
+      });
+    // Retried on the next document: the failure may have been a passing network error
+    fontDataPromise.then(data => {
+      if (!data) fontDataPromise = null;
+    });
+  }
+  return fontDataPromise;
+}
+
+/**
+ * Registers the CJK font with a document and returns the font name to use
+ * for text. Without the font file, Latin-1 text falls back to a built-in
+ * font; any other text throws rather than being written as garbage.
+ */
+export async function registerCjkFont(pdf: jsPDF, texts: string[]): Promise<string> {
+  const data = await fetchFontData();
+  if (!data) {
+    if (texts.some(text => /[^\u0000-\u00ff]/.test(text))) {
+      throw new Error(`中文字体 ${CJK_FONT_FILE} 加载失败，无法写入页眉、页脚、水印或文字层`);
+    }
+    return FALLBACK_FONT_NAME;
+  }
+
+  pdf.addFileToVFS(CJK_FONT_FILE, data);
+  pdf.addFont(CJK_FONT_FILE, CJK_FONT_NAME, 'normal');
+  return CJK_FONT_NAME;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GEMINI_MODEL, analyzeDocument } from './geminiService';
+import { mockGenAiClient } from './testFixtures';
+
+describe('analyzeDocument with a mock Gemini client', () => {
+  it('sends the image with its MIME type and converts the answer to source rows', async () => {
+    const { client, calls } = mockGenAiClient('{"summary":"网页","sections":[{"title":"简介","y":250}],"safeCuts":[500]}');
+    const analysis = await analyzeDocument('data:image/webp;base64,QUJD', 4000, client);
+
+    expect(analysis).toEqual({ summary: '网页', sections: [{ title: '简介', y: 1000 }], safeCuts: [2000] });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].model).toBe(DEFAULT_GEMINI_MODEL);
+    expect(JSON.stringify(calls[0].contents)).toContain('"inlineData":{"mimeType":"image/webp","data":"QUJD"}');
+  });
+
+  it('uses the requested model', async () => {
+    const { client, calls } = mockGenAiClient('{"summary":"","sections":[],"safeCuts":[]}');
+    await analyzeDocument('data:image/png;base64,QUJD', 100, client, 'gemini-test');
+    expect(calls[0].model).toBe('gemini-test');
+  });
+
+  it('fails when the model returns nothing', async () => {
+    const { client } = mockGenAiClient(undefined);
+    await expect(analyzeDocument('data:image/png;base64,QUJD', 100, client)).rejects.toThrow('Gemini 未返回分析结果');
+  });
+});
@@ -1,40 +1,80 @@
+import { GoogleGenAI, Type, GenerateContentParameters } from "@google/genai";
+import { DocumentAnalysis } from "../types";
+import { ANALYSIS_PROMPT, parseAnalysis, splitDataUrl } from "./analysisService";
 
-import { GoogleGenAI } from "@google/genai";
+/**
+ * The part of the Gemini client the analysis uses. Pass any object of this
+ * shape (e.g. a local mock) to run the analysis without the real API.
+ */
+export interface GenAiClient {
+  models: {
+    generateContent(params: GenerateContentParameters): Promise<{ text?: string }>;
+  };
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          y: { type: Type.NUMBER }
+        },
+        required: ["title", "y"]
+      }
+    },
+    safeCuts: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER }
+    }
+  },
+  required: ["summary", "sections", "safeCuts"]
+};
+
+export function createGeminiClient(apiKey: string): GenAiClient {
+  return new GoogleGenAI({ apiKey });
+}
 
 /**
- * Analyzes the uploaded long image to provide context or smart splitting advice
+ * Analyzes the uploaded long image with Gemini: a short description, detected
+ * sections and rows that are safe to cut at, all in source pixel rows
  */
-export async function analyzeDocument(base64DataUrl: string): Promise<string> {
-  try {
-    // Extract actual base64 data
-    const base64 = base64DataUrl.split(',')[1];
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: [
-        {
-          parts: [
-            { text: "简要描述这张长图的内容。它是网页、聊天记录还是技术文档？是否包含自然的章节分割？请用中文回答，字数控制在40字以内。" },
-            { 
-              inlineData: {
-                mimeType: "image/jpeg",
-                data: base64
-              }
+export async function analyzeDocument(
+  base64DataUrl: string,
+  imageHeight: number,
+  client: GenAiClient,
+  model: string = DEFAULT_GEMINI_MODEL
+): Promise<DocumentAnalysis> {
+  const { mimeType, base64 } = splitDataUrl(base64DataUrl);
+
+  const response = await client.models.generateContent({
+    model,
+    contents: [
+      {
+        parts: [
+          { text: ANALYSIS_PROMPT },
+          {
+            inlineData: {
+              mimeType,
+              data: base64
             }
-          ]
-        }
-      ],
-      config: {
-        maxOutputTokens: 100,
-        temperature: 0.7
+          }
+        ]
       }
-    });
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: ANALYSIS_SCHEMA,
+      temperature: 0.2
+    }
+  });
 
-    return response.text || "正在分析文档结构。";
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "准备好转换您的文档。";
-  }
+  if (!response.text) throw new Error("Gemini 未返回分析结果");
+  return parseAnalysis(response.text, imageHeight);
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { encodeGrayJpeg, encodeGrayPng } from './grayEncoder';
+
+// Odd sizes, so partial JPEG blocks and padded 1-bit PNG rows are exercised
+const WIDTH = 37;
+const HEIGHT = 21;
+
+// A horizontal gradient with a dark "text" block, one byte per pixel
+function testImage(): Uint8Array {
+  const gray = new Uint8Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inBlock = x >= 5 && x < 20 && y >= 6 && y < 14;
+      gray[y * WIDTH + x] = inBlock ? 20 : Math.round((x / (WIDTH - 1)) * 255);
+    }
+  }
+  return gray;
+}
+
+// Decodes with an independent codec and returns its size and the red channel
+async function decode(bytes: Uint8Array) {
+  const image = await loadImage(Buffer.from(bytes));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, image.width, image.height);
+  const channel = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < channel.length; i++) {
+    // Greyscale decodes with equal channels
+    expect(data[i * 4 + 1]).toBe(data[i * 4]);
+    channel[i] = data[i * 4];
+  }
+  return { width: image.width, height: image.height, channel };
+}
+
+const maxDifference = (a: Uint8Array, b: Uint8Array) => a.reduce((max, value, idx) => Math.max(max, Math.abs(value - b[idx])), 0);
+
+describe('encodeGrayPng', () => {
+  it('round-trips 8-bit luminance exactly', async () => {
+    const gray = testImage();
+    const decoded = await decode(encodeGrayPng(gray, WIDTH, HEIGHT, 8));
+    expect([decoded.width, decoded.height]).toEqual([WIDTH, HEIGHT]);
+    expect(decoded.channel).toEqual(gray);
+  });
+
+  it('stores one bit per pixel, split at the middle grey', async () => {
+    const gray = testImage();
+    const decoded = await decode(encodeGrayPng(gray, WIDTH, HEIGHT, 1));
+    expect([decoded.width, decoded.height]).toEqual([WIDTH, HEIGHT]);
+    expect(decoded.channel).toEqual(gray.map(value => (value >= 128 ? 255 : 0)));
+  });
+});
+
+describe('encodeGrayJpeg', () => {
+  it('decodes to the same size and close to the original pixels', async () => {
+    const gray = testImage();
+    const decoded = await decode(encodeGrayJpeg(gray, WIDTH, HEIGHT, 0.92));
+    expect([decoded.width, decoded.height]).toEqual([WIDTH, HEIGHT]);
+    expect(maxDifference(decoded.channel, gray)).toBeLessThan(24);
+  });
+
+  it('loses more detail at lower quality, but stays a valid image', async () => {
+    const gray = testImage();
+    const high = await decode(encodeGrayJpeg(gray, WIDTH, HEIGHT, 0.92));
+    const low = await decode(encodeGrayJpeg(gray, WIDTH, HEIGHT, 0.1));
+    expect([low.width, low.height]).toEqual([WIDTH, HEIGHT]);
+    const error = (decoded: Uint8Array) => decoded.reduce((sum, value, idx) => sum + Math.abs(value - gray[idx]), 0);
+    expect(error(low.channel)).toBeGreaterThan(error(high.channel));
+  });
+});
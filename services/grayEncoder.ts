@@ -0,0 +1,307 @@
+// Single-channel image writers. Canvas encoders always produce RGB, which
+// jsPDF embeds as DeviceRGB; a one-component JPEG or a greyscale PNG is
+// embedded as DeviceGray, a 1-bit PNG with one bit per pixel.
+import { zlibSync } from 'fflate';
+
+// Baseline luminance quantisation table (ITU T.81 Annex K), natural order
+const BASE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+
+// Natural index of each coefficient in zigzag order
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+];
+
+// Standard luminance Huffman tables: code counts per length 1-16, then symbols
+const DC_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_SYMBOLS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_SYMBOLS = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa
+];
+
+// DCT basis: DCT_BASIS[u * 8 + x] = C(u) / 2 * cos((2x + 1) u π / 16)
+const DCT_BASIS = Array.from({ length: 64 }, (_, i) => {
+  const u = Math.floor(i / 8);
+  const x = i % 8;
+  return (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+});
+
+interface HuffmanCode {
+  code: number;
+  length: number;
+}
+
+// Canonical codes for the symbols of a table
+function huffmanCodes(counts: number[], symbols: number[]): HuffmanCode[] {
+  const codes: HuffmanCode[] = [];
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[symbols[k++]] = { code: code++, length };
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+const DC_CODES = huffmanCodes(DC_COUNTS, DC_SYMBOLS);
+const AC_CODES = huffmanCodes(AC_COUNTS, AC_SYMBOLS);
+
+// Growable byte buffer
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value >> 8);
+    this.byte(value & 0xff);
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Entropy-coded segment: bits are packed MSB first and 0xFF bytes are stuffed
+class BitWriter {
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private out: ByteWriter) {}
+
+  // Codes and values are at most 16 bits, so the buffer never exceeds 23
+  write(value: number, length: number) {
+    this.buffer = (this.buffer << length) | (value & ((1 << length) - 1));
+    this.count += length;
+    while (this.count >= 8) {
+      this.count -= 8;
+      const byte = (this.buffer >> this.count) & 0xff;
+      this.out.byte(byte);
+      if (byte === 0xff) this.out.byte(0);
+    }
+    this.buffer &= (1 << this.count) - 1;
+  }
+
+  // Pads the last byte with one bits
+  end() {
+    if (this.count > 0) this.write(0x7f, 8 - this.count);
+  }
+}
+
+// Bits needed for the magnitude of a coefficient (its JPEG category)
+function category(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+// A coefficient's extra bits: negative values are stored as one's complement
+function valueBits(value: number, bits: number): number {
+  return value < 0 ? value + (1 << bits) - 1 : value;
+}
+
+/**
+ * Encodes one byte per pixel of luminance as a baseline JPEG with a single
+ * component. Quality is 0-1, scaled like the IJG encoder.
+ */
+export function encodeGrayJpeg(gray: Uint8Array, width: number, height: number, quality: number): Uint8Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality * 100)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const quant = BASE_QUANT.map(base => Math.min(255, Math.max(1, Math.floor((base * scale + 50) / 100))));
+
+  const out = new ByteWriter();
+  out.word(0xffd8);
+  // JFIF header, 1:1 pixel aspect
+  out.word(0xffe0);
+  out.word(16);
+  out.array([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  out.word(0xffdb);
+  out.word(67);
+  out.byte(0);
+  out.array(ZIGZAG.map(idx => quant[idx]));
+  // Baseline frame: 8-bit samples, one component with id 1, no subsampling, table 0
+  out.word(0xffc0);
+  out.word(11);
+  out.byte(8);
+  out.word(height);
+  out.word(width);
+  out.array([1, 1, 0x11, 0]);
+  for (const [tableClass, counts, symbols] of [[0, DC_COUNTS, DC_SYMBOLS], [1, AC_COUNTS, AC_SYMBOLS]] as const) {
+    out.word(0xffc4);
+    out.word(19 + symbols.length);
+    out.byte(tableClass << 4);
+    out.array(counts);
+    out.array(symbols);
+  }
+  out.word(0xffda);
+  out.word(8);
+  out.array([1, 1, 0, 0, 63, 0]);
+
+  const bits = new BitWriter(out);
+  const block = new Float64Array(64);
+  const rows = new Float64Array(64);
+  const coefficients = new Int32Array(64);
+  let previousDc = 0;
+  for (let by = 0; by < height; by += 8) {
+    for (let bx = 0; bx < width; bx += 8) {
+      // Edge blocks repeat the last row and column
+      for (let y = 0; y < 8; y++) {
+        const row = Math.min(by + y, height - 1) * width;
+        for (let x = 0; x < 8; x++) {
+          block[y * 8 + x] = gray[row + Math.min(bx + x, width - 1)] - 128;
+        }
+      }
+      // Separable 2D DCT: rows first, then columns
+      for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0;
+          for (let x = 0; x < 8; x++) sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+          rows[y * 8 + u] = sum;
+        }
+      }
+
+      for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0;
+          for (let y = 0; y < 8; y++) sum += DCT_BASIS[v * 8 + y] * rows[y * 8 + u];
+          coefficients[v * 8 + u] = Math.round(sum / quant[v * 8 + u]);
+        }
+      }
+
+      const dc = coefficients[0];
+      const dcBits = category(dc - previousDc);
+      bits.write(DC_CODES[dcBits].code, DC_CODES[dcBits].length);
+      bits.write(valueBits(dc - previousDc, dcBits), dcBits);
+      previousDc = dc;
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        const value = coefficients[ZIGZAG[k]];
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        for (; run > 15; run -= 16) bits.write(AC_CODES[0xf0].code, AC_CODES[0xf0].length);
+        const acBits = category(value);
+        const symbol = (run << 4) | acBits;
+        bits.write(AC_CODES[symbol].code, AC_CODES[symbol].length);
+        bits.write(valueBits(value, acBits), acBits);
+        run = 0;
+      }
+      if (run > 0) bits.write(AC_CODES[0].code, AC_CODES[0].length);
+    }
+  }
+  bits.end();
+  out.word(0xffd9);
+  return out.result();
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(out: ByteWriter, type: string, data: Uint8Array) {
+  const body = new Uint8Array(4 + data.length);
+  for (let i = 0; i < 4; i++) body[i] = type.charCodeAt(i);
+  body.set(data, 4);
+  out.word(data.length >>> 16);
+  out.word(data.length & 0xffff);
+  out.array(body);
+  const crc = crc32(body);
+  out.word(crc >>> 16);
+  out.word(crc & 0xffff);
+}
+
+/**
+ * Encodes one byte per pixel of luminance as a greyscale PNG. At depth 1
+ * each pixel becomes black or white around the middle grey.
+ */
+export function encodeGrayPng(gray: Uint8Array, width: number, height: number, depth: 1 | 8): Uint8Array {
+  const rowBytes = depth === 8 ? width : Math.ceil(width / 8);
+  // Every row starts with filter type 0 (none)
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowBytes + 1) + 1;
+    if (depth === 8) {
+      raw.set(gray.subarray(y * width, (y + 1) * width), start);
+      continue;
+    }
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] >= 128) raw[start + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = depth;
+  // Colour type 0 (greyscale), deflate, adaptive filtering, no interlace
+  header.set([0, 0, 0, 0], 9);
+
+  const out = new ByteWriter();
+  out.array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  pngChunk(out, 'IHDR', header);
+  pngChunk(out, 'IDAT', zlibSync(raw));
+  pngChunk(out, 'IEND', new Uint8Array(0));
+  return out.result();
+}
+
+/**
+ * Wraps encoded bytes in a base64 data URL
+ */
+export function bytesToDataUrl(bytes: Uint8Array, type: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${type};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,238 @@
+import { SourceImage } from '../types';
+
+// Formats browsers cannot decode themselves; converted to PNG on import
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+const HEIC_EXTENSIONS = ['.heic', '.heif'];
+const TIFF_TYPES = ['image/tiff'];
+const TIFF_EXTENSIONS = ['.tif', '.tiff'];
+// Every page of an imported PDF is rasterised into its own source
+const PDF_TYPES = ['application/pdf'];
+const PDF_EXTENSIONS = ['.pdf'];
+// Resolution PDF pages are rasterised at; very large pages are scaled down
+// so their longer side stays within MAX_PDF_PAGE_PX
+const PDF_RENDER_DPI = 150;
+const MAX_PDF_PAGE_PX = 8192;
+// Decoded natively by current browsers, but often reported without a MIME type
+const NATIVE_EXTENSIONS = ['.avif', '.webp', '.png', '.jpg', '.jpeg', '.gif', '.bmp'];
+
+// `accept` for file inputs
+export const IMPORT_ACCEPT = ['image/*', ...HEIC_EXTENSIONS, ...TIFF_EXTENSIONS, '.avif', ...PDF_TYPES, ...PDF_EXTENSIONS].join(',');
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+function isHeic(file: File): boolean {
+  return HEIC_TYPES.includes(file.type) || HEIC_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+function isTiff(file: File): boolean {
+  return TIFF_TYPES.includes(file.type) || TIFF_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+function isPdf(file: File): boolean {
+  return PDF_TYPES.includes(file.type) || PDF_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+/**
+ * Whether a file looks like an image that can be imported, by type or,
+ * when the system reports none (HEIC on Windows), by extension
+ */
+export function isImportableFile(file: File): boolean {
+  return file.type.startsWith('image/') || isHeic(file) || isTiff(file) || isPdf(file)
+    || NATIVE_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Reads an image file into a source entry, resolving once its dimensions are known
+ */
+export async function readImageFile(file: File): Promise<SourceImage> {
+  const dataUrl = await readAsDataUrl(file);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(dataUrl);
+  } catch {
+    throw new Error(`无法解码图片: ${file.name}`);
+  }
+  return {
+    id: crypto.randomUUID(),
+    dataUrl,
+    metadata: {
+      name: file.name,
+      width: img.width,
+      height: img.height,
+      type: file.type,
+      size: file.size
+    }
+  };
+}
+
+async function convertHeic(file: File): Promise<SourceImage> {
+  const { default: heic2any } = await import('heic2any');
+  let converted: Blob | Blob[];
+  try {
+    converted = await heic2any({ blob: file, toType: 'image/png' });
+  } catch {
+    throw new Error(`无法解码 HEIC 图片: ${file.name}`);
+  }
+  // Only the primary image of a HEIC sequence (live photos, bursts)
+  const blob = Array.isArray(converted) ? converted[0] : converted;
+  return readImageFile(new File([blob], file.name, { type: 'image/png' }));
+}
+
+/**
+ * Decodes every page of a TIFF into its own PNG source
+ */
+async function convertTiff(file: File): Promise<SourceImage[]> {
+  const { default: UTIF } = await import('utif');
+  const buffer = await file.arrayBuffer();
+  let pages;
+  try {
+    // Sub-images (thumbnails) are listed separately and not returned here
+    pages = UTIF.decode(buffer).filter(ifd => ifd.width || ifd.t256);
+    for (const ifd of pages) UTIF.decodeImage(buffer, ifd);
+  } catch {
+    throw new Error(`无法解码 TIFF 图片: ${file.name}`);
+  }
+  if (pages.length === 0) throw new Error(`TIFF 中没有图像: ${file.name}`);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const sources: SourceImage[] = [];
+  for (const [idx, ifd] of pages.entries()) {
+    const width = ifd.width as number;
+    const height = ifd.height as number;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), width, height), 0, 0);
+    const name = pages.length > 1 ? `${baseName(file.name)} 第${idx + 1}页.png` : file.name;
+    sources.push(await canvasToSource(canvas, name, `无法解码 TIFF 图片: ${file.name}`));
+  }
+  return sources;
+}
+
+async function canvasToSource(canvas: HTMLCanvasElement, name: string, failure: string): Promise<SourceImage> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(failure);
+  return readImageFile(new File([blob], name, { type: 'image/png' }));
+}
+
+let pdfWorker: Worker | null = null;
+
+/**
+ * Rasterises every page of a PDF with pdf.js into its own PNG source
+ */
+async function convertPdf(file: File): Promise<SourceImage[]> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfWorker) {
+    pdfWorker = new Worker(new URL('./pdfImportWorker.ts', import.meta.url), { type: 'module' });
+    pdfjs.GlobalWorkerOptions.workerPort = pdfWorker;
+  }
+
+  const task = pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+  let doc;
+  try {
+    doc = await task.promise;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'PasswordException') throw new Error(`PDF 已加密，无法导入: ${file.name}`);
+    throw new Error(`无法解码 PDF: ${file.name}`);
+  }
+
+  try {
+    const canvas = document.createElement('canvas');
+    const sources: SourceImage[] = [];
+    for (let number = 1; number <= doc.numPages; number++) {
+      const page = await doc.getPage(number);
+      const natural = page.getViewport({ scale: 1 });
+      const scale = Math.min(PDF_RENDER_DPI / 72, MAX_PDF_PAGE_PX / Math.max(natural.width, natural.height));
+      const viewport = page.getViewport({ scale });
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      try {
+        await page.render({ canvas, viewport }).promise;
+      } catch {
+        throw new Error(`无法渲染 PDF 第 ${number} 页: ${file.name}`);
+      } finally {
+        page.cleanup();
+      }
+      const name = doc.numPages > 1 ? `${baseName(file.name)} 第${number}页.png` : `${baseName(file.name)}.png`;
+      sources.push(await canvasToSource(canvas, name, `无法渲染 PDF 第 ${number} 页: ${file.name}`));
+    }
+    return sources;
+  } finally {
+    await task.destroy();
+  }
+}
+
+/**
+ * Imports a file as one or more sources: HEIC, TIFF and PDF are converted to
+ * PNG first, and every page of a multi-page TIFF or a PDF becomes a source.
+ * Rejects with a message naming the file when it cannot be decoded.
+ */
+export async function importImageFile(file: File): Promise<SourceImage[]> {
+  if (isHeic(file)) return [await convertHeic(file)];
+  if (isTiff(file)) return convertTiff(file);
+  if (isPdf(file)) return convertPdf(file);
+  return [await readImageFile(file)];
+}
+
+/**
+ * Downloads an image and imports it like a file. The server has to allow
+ * cross-origin requests; otherwise the browser blocks the download.
+ */
+export async function importImageUrl(url: string): Promise<SourceImage[]> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`网址无效: ${url}`);
+  }
+  if (!['http:', 'https:', 'data:'].includes(parsed.protocol)) throw new Error(`网址无效: ${url}`);
+
+  let response: Response;
+  try {
+    response = await fetch(parsed);
+  } catch {
+    throw new Error(`无法下载 ${parsed.host || '图片'}：网络错误或对方不允许跨域访问`);
+  }
+  if (!response.ok) throw new Error(`下载失败：HTTP ${response.status}`);
+
+  const blob = await response.blob();
+  const segment = decodeURIComponent(parsed.pathname.split('/').pop() ?? '');
+  const name = parsed.protocol !== 'data:' && segment ? segment : 'image';
+  const file = new File([blob], name, { type: blob.type });
+  if (!isImportableFile(file)) throw new Error(`网址不是图片: ${url}`);
+  return importImageFile(file);
+}
+
+/**
+ * Decodes a data URL into an image element
+ */
+export function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('图片解码失败'));
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * Strips the extension from a file name for use as an output base name
+ */
+export function baseName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
@@ -0,0 +1,132 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { OcrWord, ProcessedPage, SourceImage } from '../types';
+import { loadImage } from './imageService';
+
+// Worker, WASM core and traineddata are served from public/tesseract
+// (see scripts/copy-ocr-assets.mjs) so recognition never leaves the machine
+const OCR_ASSET_BASE = '/tesseract';
+const OCR_LANGS = 'chi_sim+eng';
+
+// Sources are recognised in horizontal bands to keep Tesseract's memory bounded
+const BAND_HEIGHT = 2000;
+// Extra rows read above and below each band so lines on the seam are not lost
+const BAND_OVERLAP = 120;
+// Words below this confidence are mostly noise from icons and avatars
+const MIN_CONFIDENCE = 40;
+
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(OCR_LANGS, 1, {
+      workerPath: `${OCR_ASSET_BASE}/worker.min.js`,
+      corePath: `${OCR_ASSET_BASE}/core`,
+      langPath: `${OCR_ASSET_BASE}/lang`,
+      workerBlobURL: false
+    }).catch(err => {
+      // Allow a later retry instead of caching the failure
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Recognises all words of a source image. Word boxes are returned in
+ * source pixel coordinates, independent of how the source is paginated.
+ */
+export async function recognizeSource(
+  source: SourceImage,
+  onProgress?: (progress: number) => void
+): Promise<OcrWord[]> {
+  const worker = await getWorker();
+  const img = await loadImage(source.dataUrl);
+  const { width, height } = source.metadata;
+  const words: OcrWord[] = [];
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  for (let top = 0; top < height; top += BAND_HEIGHT) {
+    const bandTop = Math.max(0, top - BAND_OVERLAP);
+    const bandBottom = Math.min(height, top + BAND_HEIGHT + BAND_OVERLAP);
+    canvas.width = width;
+    canvas.height = bandBottom - bandTop;
+    ctx.drawImage(img, 0, bandTop, width, canvas.height, 0, 0, width, canvas.height);
+
+    const { data } = await worker.recognize(canvas, {}, { blocks: true });
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            const text = word.text.trim();
+            if (!text || word.confidence < MIN_CONFIDENCE) continue;
+
+            const y = word.bbox.y0 + bandTop;
+            const wordHeight = word.bbox.y1 - word.bbox.y0;
+            // Each word belongs to the band its centre falls in, so overlaps are not duplicated
+            const centre = y + wordHeight / 2;
+            if (centre < top || centre >= top + BAND_HEIGHT) continue;
+
+            words.push({
+              text,
+              x: word.bbox.x0,
+              y,
+              width: word.bbox.x1 - word.bbox.x0,
+              height: wordHeight
+            });
+          }
+        }
+      }
+    }
+
+    onProgress?.(Math.min(1, (top + BAND_HEIGHT) / height));
+  }
+
+  return words;
+}
+
+/**
+ * Attaches recognised words to the pages cut from their source.
+ * Pages map directly onto source rows, so boxes only need shifting by
+ * `sourceX`/`sourceY` (less any rows removed by cleanup above them) and
+ * scaling by the page's resample factor.
+ */
+export function applyTextLayer(
+  pages: ProcessedPage[],
+  wordsBySource: Map<string, OcrWord[]>
+): ProcessedPage[] {
+  return pages.map(page => {
+    const words = wordsBySource.get(page.sourceId);
+    if (!words) return page;
+
+    const pageEnd = page.sourceY + page.sourceHeight;
+    // Poster tiles show only part of the width
+    const pageRight = page.sourceX + page.width / page.pixelScale;
+    const skipped = page.skipped ?? [];
+    const textLayer = words
+      .filter(word => {
+        const centre = word.y + word.height / 2;
+        const centreX = word.x + word.width / 2;
+        return centre >= page.sourceY && centre < pageEnd
+          && centreX >= page.sourceX && centreX < pageRight
+          && !skipped.some(range => centre >= range.start && centre < range.end);
+      })
+      .map(word => {
+        const removedAbove = skipped
+          .filter(range => range.end <= word.y)
+          .reduce((sum, range) => sum + range.end - range.start, 0);
+        return {
+          text: word.text,
+          x: (word.x - page.sourceX) * page.pixelScale,
+          y: (word.y - page.sourceY - removedAbove) * page.pixelScale,
+          width: word.width * page.pixelScale,
+          height: word.height * page.pixelScale
+        };
+      });
+
+    return { ...page, textLayer };
+  });
+}
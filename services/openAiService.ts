@@ -0,0 +1,52 @@
+// Analysis through any OpenAI-compatible chat completions API, such as
+// Ollama (http://localhost:11434/v1) or the llama.cpp server, so images can
+// stay on the local machine or network.
+import { DocumentAnalysis } from '../types';
+import { ANALYSIS_PROMPT, parseAnalysis } from './analysisService';
+
+export interface OpenAiEndpoint {
+  endpoint: string; // base URL up to and including /v1
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Analyzes the long image with a vision model behind an OpenAI-compatible
+ * endpoint. `fetchFn` can be replaced to test without a server.
+ */
+export async function analyzeDocument(
+  dataUrl: string,
+  imageHeight: number,
+  { endpoint, model, apiKey }: OpenAiEndpoint,
+  fetchFn: typeof fetch = fetch
+): Promise<DocumentAnalysis> {
+  const response = await fetchFn(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: ANALYSIS_PROMPT },
+            { type: 'image_url', image_url: { url: dataUrl } }
+          ]
+        }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`本地模型请求失败：HTTP ${response.status}`);
+  }
+  const body = await response.json();
+  const text = body?.choices?.[0]?.message?.content;
+  if (typeof text !== 'string' || !text) throw new Error("本地模型未返回分析结果");
+  return parseAnalysis(text, imageHeight);
+}
@@ -0,0 +1,416 @@
+// Slices a source into page images through the render backend only, so it
+// runs the same inside the PDF worker, on the main thread and in Node.
+import { CleanupOptions, ImageFormat, KeepRegion, PageEncoding, PdfOptions, PosterTile, ProcessedPage, Redaction, SourceView } from '../types';
+import { measureRowInk, findSafeCutOffset } from './splitService';
+import { choosePageEncoding, toLuminance, toBlackWhite } from './encodingService';
+import { encodeGrayJpeg, encodeGrayPng, bytesToDataUrl } from './grayEncoder';
+import { fillRedactions } from './redactionService';
+import {
+  ROW_SIGNATURE_COLUMNS, SourceSample, buildSourceView, needsSample,
+  viewHeight, toViewRow, toSourceRow, removedBetween
+} from './cleanupService';
+import { DecodedImage, RenderSurface, getRenderBackend } from './renderBackend';
+
+// Width the search band is downsampled to before scanning rows for ink
+const SCAN_WIDTH = 480;
+// Rows decoded at a time while sampling a source for cleanup
+const SAMPLE_BAND_ROWS = 2048;
+// Width sources are downsampled to when looking for uniform side margins
+const MARGIN_SAMPLE_WIDTH = 512;
+
+export interface RenderJob {
+  sourceId: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  keepTogether: KeepRegion[];
+  redactions: Redaction[];
+  view: SourceView; // part of the source left after cleanup; pagination works inside it
+  segmentHeightPx: number;
+  options: PdfOptions;
+  outputScale: number; // page pixels per source pixel
+  cuts?: number[]; // explicit page breaks in source rows
+  tiles?: TileJob[]; // poster mode: rendered instead of the vertical page flow
+}
+
+// Poster tile and the rectangle of the view it shows, in view pixels
+export interface TileJob {
+  tile: PosterTile;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderHooks {
+  onProgress?: (done: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+type DrawRegion = DecodedImage['draw'];
+type DecodedSource = DecodedImage;
+
+/**
+ * Decodes a source with the render backend. Redactions are filled on every
+ * draw, so no caller sees the original pixels.
+ */
+async function decodeSource(dataUrl: string, width: number, redactions: Redaction[]): Promise<DecodedSource> {
+  const image = await getRenderBackend().decode(dataUrl, width);
+  const draw: DrawRegion = async (ctx, sx, sy, sw, sh, dx, dy, dw, dh) => {
+    await image.draw(ctx, sx, sy, sw, sh, dx, dy, dw, dh);
+    fillRedactions(ctx, redactions, sx, sy, sw, sh, dx, dy, dw, dh);
+  };
+  return { draw, close: image.close };
+}
+
+/**
+ * Presents the kept part of a source as one continuous image: columns are
+ * offset by the side trim and rows skip the removed ranges, so a region
+ * that spans a removed bar is drawn from the pieces around it.
+ */
+function viewSource(source: DecodedSource, view: SourceView): DecodedSource {
+  return {
+    draw: async (ctx, sx, sy, sw, sh, dx, dy, dw, dh) => {
+      const scaleY = dh / sh;
+      let row = 0;
+      for (const span of view.spans) {
+        const length = span.end - span.start;
+        const from = Math.max(sy, row);
+        const to = Math.min(sy + sh, row + length);
+        if (to > from) {
+          await source.draw(
+            ctx,
+            view.left + sx, span.start + (from - row), sw, to - from,
+            dx, dy + (from - sy) * scaleY, dw, (to - from) * scaleY
+          );
+        }
+        row += length;
+      }
+    },
+    close: () => source.close()
+  };
+}
+
+/**
+ * Reads row signatures and column grey ranges in bands, for cleanup detection
+ */
+async function sampleSource(source: DecodedSource, width: number, height: number): Promise<SourceSample> {
+  const sampleWidth = Math.min(MARGIN_SAMPLE_WIDTH, width);
+  const cols = ROW_SIGNATURE_COLUMNS;
+  const signatures = new Uint8Array(height * cols);
+  const columnMin = new Uint8Array(sampleWidth).fill(255);
+  const columnMax = new Uint8Array(sampleWidth);
+  const sums = new Float32Array(cols);
+  const counts = new Uint16Array(cols);
+
+  for (let top = 0; top < height; top += SAMPLE_BAND_ROWS) {
+    const rows = Math.min(SAMPLE_BAND_ROWS, height - top);
+    const { ctx } = createContext(sampleWidth, rows, true);
+    await source.draw(ctx, 0, top, width, rows, 0, 0, sampleWidth, rows);
+    const { data } = ctx.getImageData(0, 0, sampleWidth, rows);
+
+    for (let y = 0; y < rows; y++) {
+      sums.fill(0);
+      counts.fill(0);
+      for (let x = 0; x < sampleWidth; x++) {
+        const i = (y * sampleWidth + x) * 4;
+        const grey = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+        if (grey < columnMin[x]) columnMin[x] = grey;
+        if (grey > columnMax[x]) columnMax[x] = grey;
+        const col = Math.floor((x * cols) / sampleWidth);
+        sums[col] += grey;
+        counts[col]++;
+      }
+      for (let col = 0; col < cols; col++) {
+        signatures[(top + y) * cols + col] = counts[col] ? sums[col] / counts[col] : 255;
+      }
+    }
+  }
+
+  return { signatures, columnMin, columnMax };
+}
+
+function createContext(width: number, height: number, willReadFrequently = false): RenderSurface {
+  return getRenderBackend().createSurface(width, height, willReadFrequently);
+}
+
+/**
+ * Encodes a rendered page according to the requested encoding. Greyscale and
+ * black-and-white rewrite the pixels first; auto decides per page.
+ */
+async function encodePage(
+  canvas: RenderSurface,
+  options: PdfOptions
+): Promise<{ dataUrl: string; format: ImageFormat }> {
+  const { ctx, width, height } = canvas;
+  let encoding = options.encoding;
+  if (encoding !== PageEncoding.Jpeg && encoding !== PageEncoding.Png) {
+    const image = ctx.getImageData(0, 0, width, height);
+    if (encoding === PageEncoding.Auto) {
+      encoding = choosePageEncoding(image.data);
+    }
+    // Written as single-channel images, which the PDF embeds as DeviceGray
+    if (encoding === PageEncoding.Grayscale) {
+      const gray = toLuminance(image.data);
+      return { dataUrl: bytesToDataUrl(encodeGrayJpeg(gray, width, height, options.quality), 'image/jpeg'), format: 'JPEG' };
+    }
+    if (encoding === PageEncoding.BlackWhite) {
+      // One bit per pixel: flat pages compress far better losslessly
+      const gray = toLuminance(image.data);
+      toBlackWhite(gray);
+      return { dataUrl: bytesToDataUrl(encodeGrayPng(gray, width, height, 1), 'image/png'), format: 'PNG' };
+    }
+  }
+
+  if (encoding === PageEncoding.Png) {
+    return { dataUrl: await getRenderBackend().encode(canvas, 'image/png'), format: 'PNG' };
+  }
+  return { dataUrl: await getRenderBackend().encode(canvas, 'image/jpeg', options.quality), format: 'JPEG' };
+}
+
+function throwIfCancelled(hooks: RenderHooks) {
+  if (hooks.isCancelled?.()) throw new DOMException('Rendering cancelled', 'AbortError');
+}
+
+/**
+ * Moves a nominal cut up into the nearest whitespace band so the break does
+ * not slice through a line of text. Searches at most `searchPx` rows above it.
+ */
+async function findSmartCut(
+  source: DecodedSource,
+  width: number,
+  nominalY: number,
+  searchPx: number
+): Promise<number> {
+  const bandStart = Math.max(0, Math.floor(nominalY - searchPx));
+  const bandHeight = Math.floor(nominalY) - bandStart;
+  if (bandHeight <= 1) return nominalY;
+
+  const scanWidth = Math.min(SCAN_WIDTH, width);
+  const { ctx } = createContext(scanWidth, bandHeight, true);
+  await source.draw(ctx, 0, bandStart, width, bandHeight, 0, 0, scanWidth, bandHeight);
+  const { data } = ctx.getImageData(0, 0, scanWidth, bandHeight);
+  const ink = measureRowInk(data, scanWidth, bandHeight);
+
+  return bandStart + findSafeCutOffset(ink);
+}
+
+/**
+ * Works out where each page starts (the first entry is always 0).
+ *
+ * Explicit `cuts` are honoured as given; any span that is still taller than
+ * a page gets automatic cuts. Automatic cuts move up into whitespace in smart
+ * mode (by at most `splitTolerance` of a page) and never land inside a
+ * keep-together region that would fit on a page of its own.
+ */
+async function planCuts(job: RenderJob, source: DecodedSource, hooks: RenderHooks): Promise<number[]> {
+  const { height, segmentHeightPx, options } = job;
+  // A page shorter than a pixel would never move the cursor
+  if (!(segmentHeightPx >= 1)) throw new Error(`Page height of ${segmentHeightPx}px is too small to split into`);
+  const forced = [...new Set(job.cuts ?? [])]
+    .filter(y => y > 0 && y < height)
+    .sort((a, b) => a - b);
+  const searchPx = segmentHeightPx * options.splitTolerance;
+
+  const cuts: number[] = [0];
+  let cursor = 0;
+  let forcedIdx = 0;
+  while (cursor < height) {
+    throwIfCancelled(hooks);
+
+    const nextForced = forcedIdx < forced.length ? forced[forcedIdx] : height;
+    if (nextForced - cursor <= segmentHeightPx) {
+      if (nextForced >= height) break;
+      cuts.push(nextForced);
+      cursor = nextForced;
+      forcedIdx++;
+      continue;
+    }
+
+    let next = cursor + segmentHeightPx;
+    if (options.smartSplit && searchPx >= 1) {
+      next = await findSmartCut(source, job.width, next, searchPx);
+    }
+    const region = job.keepTogether.find(r => r.start < next && r.end > next);
+    if (region && region.start > cursor && region.end - region.start <= segmentHeightPx) {
+      next = region.start;
+    }
+    // Never produce an empty page if nothing usable was found
+    if (next <= cursor) next = cursor + segmentHeightPx;
+
+    cuts.push(next);
+    cursor = next;
+  }
+
+  return cuts;
+}
+
+/**
+ * Works out the part of a source that remains after cleanup. Only decodes
+ * the image when margins or repeated bars have to be detected.
+ */
+export async function planSourceView(
+  dataUrl: string,
+  width: number,
+  height: number,
+  redactions: Redaction[],
+  cleanup: CleanupOptions
+): Promise<SourceView> {
+  if (!needsSample(cleanup)) return buildSourceView(width, height, cleanup);
+  const source = await decodeSource(dataUrl, width, redactions);
+  try {
+    return buildSourceView(width, height, cleanup, await sampleSource(source, width, height));
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Row signatures of a whole image, for matching screenshots against each other
+ */
+export async function sampleImage(dataUrl: string, width: number, height: number): Promise<SourceSample> {
+  const source = await decodeSource(dataUrl, width, []);
+  try {
+    return await sampleSource(source, width, height);
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * The job as seen through its view: dimensions, forced cuts and keep regions
+ * in view rows, with drawing mapped back onto the source
+ */
+async function openView(job: RenderJob): Promise<{ viewJob: RenderJob; source: DecodedSource }> {
+  const { view } = job;
+  const source = viewSource(await decodeSource(job.dataUrl, job.width, job.redactions), view);
+  const viewJob: RenderJob = {
+    ...job,
+    width: view.right - view.left,
+    height: viewHeight(view),
+    cuts: job.cuts?.map(y => toViewRow(view, y)),
+    keepTogether: job.keepTogether
+      .map(region => ({ start: toViewRow(view, region.start), end: toViewRow(view, region.end) }))
+      .filter(region => region.end > region.start)
+  };
+  return { viewJob, source };
+}
+
+/**
+ * Computes page starts without rendering anything, in source rows
+ */
+export async function planPages(job: RenderJob, hooks: RenderHooks = {}): Promise<number[]> {
+  const { viewJob, source } = await openView(job);
+  try {
+    return (await planCuts(viewJob, source, hooks)).map(row => toSourceRow(job.view, row));
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Renders each poster tile as a page of its own
+ */
+async function renderTiles(job: RenderJob, tiles: TileJob[], source: DecodedSource, hooks: RenderHooks): Promise<ProcessedPage[]> {
+  const { view, options, outputScale } = job;
+  const pages: ProcessedPage[] = [];
+  hooks.onProgress?.(0, tiles.length);
+
+  for (const [i, { tile, x, y, width, height }] of tiles.entries()) {
+    throwIfCancelled(hooks);
+
+    const canvas = createContext(width * outputScale, height * outputScale, options.encoding !== PageEncoding.Jpeg);
+    const { ctx } = canvas;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    await source.draw(ctx, x, y, width, height, 0, 0, canvas.width, canvas.height);
+
+    const { dataUrl, format } = await encodePage(canvas, options);
+    const sourceY = toSourceRow(view, y);
+    const sourceEnd = toSourceRow(view, y + height);
+    const skipped = removedBetween(view, sourceY, sourceEnd);
+    pages.push({
+      sourceId: job.sourceId,
+      sourceY,
+      sourceHeight: sourceEnd - sourceY,
+      sourceX: view.left + x,
+      ...(skipped.length > 0 ? { skipped } : {}),
+      dataUrl,
+      format,
+      pixelScale: canvas.width / width,
+      width: canvas.width,
+      height: canvas.height,
+      contentHeight: canvas.height,
+      tile
+    });
+
+    hooks.onProgress?.(i + 1, tiles.length);
+  }
+  return pages;
+}
+
+/**
+ * Renders every page of a job, reporting progress after each one
+ */
+export async function renderPages(job: RenderJob, hooks: RenderHooks = {}): Promise<ProcessedPage[]> {
+  const { viewJob, source } = await openView(job);
+  const { view } = job;
+  const { width, height, segmentHeightPx, options, outputScale } = viewJob;
+
+  try {
+    if (job.tiles) return await renderTiles(job, job.tiles, source, hooks);
+
+    const pageStarts = await planCuts(viewJob, source, hooks);
+    const pages: ProcessedPage[] = [];
+    hooks.onProgress?.(0, pageStarts.length);
+
+    for (let i = 0; i < pageStarts.length; i++) {
+      throwIfCancelled(hooks);
+
+      const currentY = pageStarts[i];
+      const nextY = i + 1 < pageStarts.length ? pageStarts[i + 1] : height;
+      const captureHeight = nextY - currentY;
+
+      // Keep canvas fixed to page height for uniform display
+      const canvas = createContext(
+        width * outputScale,
+        segmentHeightPx * outputScale,
+        options.encoding !== PageEncoding.Jpeg
+      );
+
+      const { ctx } = canvas;
+      // Fill white background for pages that end early (last page, smart cuts)
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      ctx.imageSmoothingQuality = 'high';
+      await source.draw(ctx, 0, currentY, width, captureHeight, 0, 0, canvas.width, captureHeight * outputScale);
+
+      const { dataUrl, format } = await encodePage(canvas, options);
+      // Page positions are reported in source rows, like breaks and bookmarks
+      const sourceY = toSourceRow(view, currentY);
+      const sourceEnd = toSourceRow(view, nextY);
+      const skipped = removedBetween(view, sourceY, sourceEnd);
+      pages.push({
+        sourceId: job.sourceId,
+        sourceY,
+        sourceHeight: sourceEnd - sourceY,
+        sourceX: view.left,
+        ...(skipped.length > 0 ? { skipped } : {}),
+        dataUrl,
+        format,
+        pixelScale: canvas.width / width,
+        width: canvas.width,
+        height: canvas.height,
+        contentHeight: Math.min(canvas.height, Math.round(captureHeight * outputScale))
+      });
+
+      hooks.onProgress?.(i + 1, pageStarts.length);
+    }
+
+    return pages;
+  } finally {
+    source.close();
+  }
+}
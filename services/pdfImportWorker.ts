@@ -0,0 +1,3 @@
+// pdf.js worker for PDF import: loading the bundled worker script from a
+// module worker lets Vite resolve and bundle it like any other dependency.
+import 'pdfjs-dist/build/pdf.worker.min.mjs';
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { PrintLayout } from '../types';
+import { getPosterLayout, layoutSheets } from './pdfService';
+import { pdfOptions, processedPage } from './testFixtures';
+
+describe('getPosterLayout', () => {
+  const poster = (widthMm: number, overlap: number, margin = 10) =>
+    pdfOptions({ margin, poster: { enabled: true, widthMm, overlap, marks: true } });
+
+  it('covers the poster with overlapping tiles of the printable area', () => {
+    // A4 with 10mm margins prints 190 x 277mm; tiles advance by that minus the overlap
+    const layout = getPosterLayout(poster(594, 10), 1000, 2000);
+    expect(layout.posterHeightMm).toBe(1188);
+    expect([layout.rows, layout.columns]).toEqual([5, 4]);
+    expect(layout.tiles).toHaveLength(20);
+
+    const last = layout.tiles[layout.tiles.length - 1];
+    expect(last).toMatchObject({ row: 4, column: 3, x: 540, y: 1068 });
+    expect(last.x + last.width).toBeCloseTo(594);
+    expect(last.y + last.height).toBeCloseTo(1188);
+  });
+
+  it('uses a single sheet when the poster fits exactly', () => {
+    const layout = getPosterLayout(poster(190, 10), 190, 277);
+    expect([layout.rows, layout.columns]).toEqual([1, 1]);
+    expect(layout.tiles[0]).toMatchObject({ x: 0, y: 0, width: 190, height: 277 });
+  });
+
+  it('rejects posters that would need too many sheets', () => {
+    expect(() => getPosterLayout(poster(10000, 0), 100, 10000)).toThrow('上限');
+  });
+});
+
+describe('layoutSheets with the booklet layout', () => {
+  // One full A4 page per source, so every source becomes one logical page
+  const pages = (count: number) => Array.from({ length: count }, (_, idx) => processedPage({ sourceId: `s${idx}` }));
+  const booklet = pdfOptions({ print: { layout: PrintLayout.Booklet, gutter: 0, mirrorMargins: false } });
+  const pageNumbers = (count: number) => layoutSheets(pages(count), booklet)
+    .map(sheet => sheet.frames?.map(frame => frame.pageNumber));
+
+  it('pairs pages in folding order on landscape sides', () => {
+    const sheets = layoutSheets(pages(8), booklet);
+    expect(sheets.map(sheet => [sheet.widthMm, sheet.heightMm])).toEqual(Array(4).fill([297, 210]));
+    expect(pageNumbers(8)).toEqual([[8, 1], [2, 7], [6, 3], [4, 5]]);
+  });
+
+  it('pads to a multiple of four with blank halves', () => {
+    expect(pageNumbers(5)).toEqual([[1], [2], [3], [4, 5]]);
+  });
+
+  it('scales each page into its half against the fold', () => {
+    const [front] = layoutSheets(pages(4), booklet);
+    const [left, right] = front.frames ?? [];
+    expect(left.x + left.width).toBeCloseTo(148.5);
+    expect(right.x).toBeCloseTo(148.5);
+    expect(left.scale).toBeCloseTo(right.scale);
+  });
+});
@@ -1,118 +1,927 @@
 
-import { jsPDF } from 'jspdf';
-import { PageSize, Orientation, PdfOptions, ProcessedPage } from '../types';
+import { jsPDF, GState } from 'jspdf';
+import { PageSize, StandardPageSize, Orientation, ScaleMode, HorizontalAlign, LastPageMode, PdfOptions, PosterTile, PrintLayout, ProcessedPage, SourceImage, SourceView, WatermarkType, DocumentProperties, PageLabelStyle, PageLabelOptions } from '../types';
+import { baseName } from './imageService';
+import { registerCjkFont } from './fontService';
+import { viewHeight } from './cleanupService';
+import { renderPages, planPages, planSourceView, RenderJob, RenderHooks, TileJob } from './pageRenderer';
+import { WorkerRunOptions, getPdfWorker, runInWorker } from './workerClient';
+import type { ViewJob } from './pdfWorker';
 
 // Standard A4 dimensions in pixels at 72 DPI (jsPDF default)
 // but for high quality, we calculate relative to user image
-const PAGE_DIMENSIONS = {
-  [PageSize.A4]: { width: 210, height: 297 }, // mm
+const PAGE_DIMENSIONS: Record<StandardPageSize, { width: number; height: number }> = {
+  [PageSize.A3]: { width: 297, height: 420 }, // mm
+  [PageSize.A4]: { width: 210, height: 297 },
+  [PageSize.A5]: { width: 148, height: 210 },
+  [PageSize.B5]: { width: 176, height: 250 },
   [PageSize.Letter]: { width: 215.9, height: 279.4 },
   [PageSize.Legal]: { width: 215.9, height: 355.6 },
 };
 
+const MM_PER_INCH = 25.4;
+// Resolution assumed for "fit to image width" when no output DPI is set,
+// and the natural size of an image for the scale modes
+const FIT_WIDTH_DEFAULT_DPI = 96;
+// Smallest scale a short last page may be squeezed to when merging it into the page before
+const MERGE_MIN_SCALE = 0.85;
+// Narrowest printable area, and column within it, a layout may leave (mm)
+export const MIN_PRINTABLE_MM = 10;
+
+const ALIGN_FACTORS: Record<HorizontalAlign, number> = {
+  [HorizontalAlign.Left]: 0,
+  [HorizontalAlign.Center]: 0.5,
+  [HorizontalAlign.Right]: 1
+};
+
+// Millimetres per PDF point
+const MM_PER_PT = 25.4 / 72;
+
+// Header/footer text style
+const DECORATION_FONT_SIZE = 9; // pt
+const DECORATION_COLOR = 120;
+// Watermark text height relative to the page diagonal
+const WATERMARK_TEXT_RATIO = 0.07;
+// Watermark image width relative to the page width
+const WATERMARK_IMAGE_RATIO = 0.5;
+
+// Poster marks, in mm: distance kept from the image and longest mark
+const MARK_GAP = 1.5;
+const MARK_LENGTH = 6;
+const MARK_LINE_WIDTH = 0.2;
+// Most sheets a poster may be tiled across
+const MAX_POSTER_TILES = 500;
+
+/**
+ * Portrait width/height of the selected paper in mm, before orientation.
+ * "Fit to image width" sizes the printable area to the source at the output
+ * DPI and keeps an A4 aspect ratio.
+ */
+function basePageDimensions(options: PdfOptions, originalWidth: number) {
+  const { pageSize, margin } = options;
+  if (pageSize === PageSize.Custom) {
+    const factor = options.customUnit === 'in' ? MM_PER_INCH : 1;
+    const width = options.customWidth * factor;
+    const height = options.customHeight * factor;
+    // Custom sizes are entered as portrait; orientation swaps them like any paper
+    return { width: Math.min(width, height), height: Math.max(width, height) };
+  }
+  if (pageSize === PageSize.FitWidth) {
+    const dpi = options.dpi ?? FIT_WIDTH_DEFAULT_DPI;
+    const columns = Math.max(1, options.columns);
+    const width = columns * (originalWidth / dpi) * MM_PER_INCH + options.columnGap * (columns - 1)
+      + margin * 2 + options.print.gutter;
+    const a4 = PAGE_DIMENSIONS[PageSize.A4];
+    return { width, height: width * (a4.height / a4.width) };
+  }
+  return PAGE_DIMENSIONS[pageSize];
+}
+
+/**
+ * Largest margin and column gap that leave MIN_PRINTABLE_MM of printable
+ * area and column width on the chosen paper. Paper sized to the image grows
+ * with both, so it has no limit.
+ */
+export function getLayoutLimits(options: PdfOptions) {
+  if (options.pageSize === PageSize.FitWidth) return { maxMargin: Infinity, maxColumnGap: Infinity };
+  const baseDim = basePageDimensions(options, 1);
+  const portrait = options.orientation === Orientation.Portrait;
+  const pageWidthMm = portrait ? baseDim.width : baseDim.height;
+  const pageHeightMm = portrait ? baseDim.height : baseDim.width;
+
+  const maxMargin = (Math.min(pageWidthMm - options.print.gutter, pageHeightMm) - MIN_PRINTABLE_MM) / 2;
+  const columns = Math.max(1, options.columns);
+  const printableWidthMm = pageWidthMm - options.margin * 2 - options.print.gutter;
+  const maxColumnGap = columns > 1 ? (printableWidthMm - MIN_PRINTABLE_MM * columns) / (columns - 1) : Infinity;
+  return { maxMargin: Math.max(0, maxMargin), maxColumnGap: Math.max(0, maxColumnGap) };
+}
+
+const formatMm = (mm: number) => `${Math.round(mm * 10) / 10}mm`;
+
+/**
+ * Page geometry for a source of the given pixel width. Throws when the
+ * margins, gutter or columns leave too little of the paper to print on.
+ */
+export function getPageLayout(options: PdfOptions, originalWidth: number) {
+  const { orientation, margin } = options;
+  const baseDim = basePageDimensions(options, originalWidth);
+  
+  const pageWidthMm = orientation === Orientation.Portrait ? baseDim.width : baseDim.height;
+  const pageHeightMm = orientation === Orientation.Portrait ? baseDim.height : baseDim.width;
+  
+  // The gutter is taken from the width; which side it sits on is decided per page when sheets are laid out
+  const printableWidthMm = pageWidthMm - (margin * 2) - options.print.gutter;
+  const printableHeightMm = pageHeightMm - (margin * 2);
+  if (!(printableWidthMm >= MIN_PRINTABLE_MM && printableHeightMm >= MIN_PRINTABLE_MM)) {
+    throw new Error(
+      `页边距过大：${formatMm(pageWidthMm)}×${formatMm(pageHeightMm)} 的纸张去掉页边距和装订线后`
+      + `不足 ${formatMm(MIN_PRINTABLE_MM)}，请减小页边距或装订线`
+    );
+  }
+
+  // In multi-column layouts each column holds one slice of the image
+  const columns = Math.max(1, options.columns);
+  const columnWidthMm = (printableWidthMm - options.columnGap * (columns - 1)) / columns;
+  if (!(columnWidthMm >= MIN_PRINTABLE_MM)) {
+    throw new Error(`分栏过窄：每栏只有 ${formatMm(Math.max(0, columnWidthMm))}，请减少栏数、栏间距或页边距`);
+  }
+
+  // Width the image is drawn at; never wider than its column
+  const naturalWidthMm = (originalWidth / FIT_WIDTH_DEFAULT_DPI) * MM_PER_INCH;
+  const drawWidthMm = options.scaleMode === ScaleMode.FitPage
+    ? Math.min(columnWidthMm, naturalWidthMm * options.maxScale)
+    : options.scaleMode === ScaleMode.Fixed
+    ? Math.min(columnWidthMm, naturalWidthMm * options.scalePercent / 100)
+    : columnWidthMm;
+  // Where the image sits inside its column when it is narrower
+  const alignOffsetMm = (columnWidthMm - drawWidthMm) * ALIGN_FACTORS[options.align];
+  
+  // Calculate scaling from the drawn width
+  // We want to preserve aspect ratio. 
+  // 1mm = 3.7795 px approximately at 96 DPI, but jsPDF uses points.
+  // Let's stick to consistent aspect ratio logic.
+  const scale = originalWidth / drawWidthMm;
+  const segmentHeightPx = printableHeightMm * scale;
+
+  // With an explicit DPI pages are resampled to exactly that resolution
+  const dpiScale = options.dpi ? (drawWidthMm / MM_PER_INCH) * options.dpi / originalWidth : 1;
+
+  return {
+    pageWidthMm, pageHeightMm, printableWidthMm, printableHeightMm,
+    columns, columnWidthMm, drawWidthMm, alignOffsetMm, segmentHeightPx, dpiScale
+  };
+}
+
+function posterPaper(options: PdfOptions) {
+  // Poster sheets are taped edge to edge, so binding settings do not apply
+  const paper = {
+    ...options,
+    pageSize: options.pageSize === PageSize.FitWidth ? PageSize.A4 : options.pageSize,
+    print: { ...options.print, gutter: 0 },
+    // Tiles fill the printable area, so page columns do not apply
+    columns: 1,
+    columnGap: 0
+  };
+  // The image width only matters for paper sized to it
+  return getPageLayout(paper, 1);
+}
+
+/**
+ * Poster grid for a source of the given size (after cleanup). Each sheet's
+ * printable area holds one tile; neighbouring tiles share `overlap` mm. A
+ * paper sized to the image makes no sense for a poster, so it falls back to A4.
+ */
+export function getPosterLayout(options: PdfOptions, width: number, height: number) {
+  const { pageWidthMm, pageHeightMm, printableWidthMm, printableHeightMm } = posterPaper(options);
+  const overlap = Math.min(Math.max(0, options.poster.overlap), Math.min(printableWidthMm, printableHeightMm) / 2);
+  const posterWidthMm = Math.max(1, options.poster.widthMm);
+  const posterHeightMm = posterWidthMm * (height / width);
+
+  const stepX = printableWidthMm - overlap;
+  const stepY = printableHeightMm - overlap;
+  if (!(stepX > 0 && stepY > 0)) {
+    throw new Error('海报纸张的可打印区域不足以容纳拼接重叠，请减小页边距或重叠宽度');
+  }
+  // The epsilon keeps a poster exactly n sheets wide from gaining a sliver column
+  const columns = Math.max(1, Math.ceil((posterWidthMm - overlap) / stepX - 1e-6));
+  const rows = Math.max(1, Math.ceil((posterHeightMm - overlap) / stepY - 1e-6));
+  if (!(rows * columns <= MAX_POSTER_TILES)) {
+    throw new Error(`海报需要 ${rows}×${columns} 张纸，超过 ${MAX_POSTER_TILES} 张上限，请减小成品宽度`);
+  }
+
+  const tiles: PosterTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * stepX;
+      const y = row * stepY;
+      tiles.push({
+        row, column, rows, columns, x, y,
+        width: Math.min(printableWidthMm, posterWidthMm - x),
+        height: Math.min(printableHeightMm, posterHeightMm - y),
+        overlap
+      });
+    }
+  }
+
+  return { pageWidthMm, pageHeightMm, printableWidthMm, printableHeightMm, overlap, posterWidthMm, posterHeightMm, rows, columns, tiles };
+}
+
+export type PosterLayout = ReturnType<typeof getPosterLayout>;
+
+/**
+ * Key of the options that affect rendered page images. Options outside it
+ * (headers, watermark, OCR) only matter when the PDF is assembled.
+ */
+export function renderOptionsKey(options: PdfOptions): string {
+  const {
+    pageSize, customWidth, customHeight, customUnit, orientation, margin, columns, columnGap,
+    scaleMode, maxScale, scalePercent,
+    quality, encoding, dpi, smartSplit, splitTolerance, targetSizeMb, cleanup, poster, print
+  } = options;
+  return JSON.stringify([
+    pageSize, customWidth, customHeight, customUnit, orientation, margin, columns, columnGap,
+    scaleMode, maxScale, scalePercent,
+    quality, encoding, dpi, smartSplit, splitTolerance, targetSizeMb, cleanup,
+    // Marks are drawn on the sheet, not into the tiles
+    poster.enabled && [poster.widthMm, poster.overlap],
+    // Only the gutter changes the page size; imposition moves finished pages
+    print.gutter
+  ]);
+}
+
+export interface GenerateOptions extends WorkerRunOptions {
+  outputScale?: number; // extra downscale applied on top of the DPI setting, 1 by default
+}
+
+// Last detected view per source id; detection decodes the whole image
+const viewCache = new Map<string, { source: SourceImage; cleanupKey: string; view: SourceView }>();
+
+/**
+ * The part of a source that is paginated after cleanup (cropping, side
+ * trimming, repeated bar removal). Detection runs in the PDF worker when
+ * there is one and is cached until the image, its redactions or the cleanup
+ * options change.
+ */
+export async function getSourceView(source: SourceImage, options: PdfOptions): Promise<SourceView> {
+  const cleanupKey = JSON.stringify(options.cleanup);
+  const cached = viewCache.get(source.id);
+  if (
+    cached && cached.cleanupKey === cleanupKey
+    && cached.source.dataUrl === source.dataUrl && cached.source.redactions === source.redactions
+  ) {
+    return cached.view;
+  }
+  const { width, height } = source.metadata;
+  const job: ViewJob = { dataUrl: source.dataUrl, width, height, redactions: source.redactions ?? [], cleanup: options.cleanup };
+  const worker = getPdfWorker();
+  const view = worker
+    ? await runInWorker(worker, 'view', job)
+    : await planSourceView(job.dataUrl, job.width, job.height, job.redactions, job.cleanup);
+  viewCache.set(source.id, { source, cleanupKey, view });
+  return view;
+}
+
+function toRenderJob(source: SourceImage, options: PdfOptions, view: SourceView, cuts?: number[], outputScale = 1): RenderJob {
+  if (options.poster.enabled) return toPosterJob(source, options, view, outputScale);
+  // Trimmed sides are not printed, so the kept width fills the page
+  const { segmentHeightPx, dpiScale } = getPageLayout(options, view.right - view.left);
+  return {
+    sourceId: source.id,
+    dataUrl: source.dataUrl,
+    width: source.metadata.width,
+    height: source.metadata.height,
+    keepTogether: source.keepTogether ?? [],
+    redactions: source.redactions ?? [],
+    view,
+    segmentHeightPx,
+    options,
+    outputScale: dpiScale * outputScale,
+    cuts
+  };
+}
+
+/**
+ * Render job for poster mode: one page per tile, at the poster's resolution
+ * when an output DPI is set and in source pixels otherwise
+ */
+function toPosterJob(source: SourceImage, options: PdfOptions, view: SourceView, outputScale: number): RenderJob {
+  const width = view.right - view.left;
+  const height = viewHeight(view);
+  const { posterWidthMm, printableHeightMm, tiles } = getPosterLayout(options, width, height);
+  const pxPerMm = width / posterWidthMm;
+  // Tile edges are rounded to whole pixels so neighbours meet exactly
+  const tileJobs: TileJob[] = tiles.map(tile => {
+    const x = Math.round(tile.x * pxPerMm);
+    const y = Math.round(tile.y * pxPerMm);
+    const right = Math.min(width, Math.round((tile.x + tile.width) * pxPerMm));
+    const bottom = Math.min(height, Math.round((tile.y + tile.height) * pxPerMm));
+    return { tile, x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+  });
+  const dpiScale = options.dpi ? (posterWidthMm / MM_PER_INCH) * options.dpi / width : 1;
+  return {
+    sourceId: source.id,
+    dataUrl: source.dataUrl,
+    width: source.metadata.width,
+    height: source.metadata.height,
+    keepTogether: [],
+    redactions: source.redactions ?? [],
+    view,
+    segmentHeightPx: printableHeightMm * pxPerMm,
+    options,
+    outputScale: dpiScale * outputScale,
+    tiles: tileJobs
+  };
+}
+
+/**
+ * Computes the automatic page breaks for a source, without rendering pages.
+ * Returned positions exclude the implicit break at 0.
+ */
+export async function computePageBreaks(source: SourceImage, options: PdfOptions): Promise<number[]> {
+  const job = toRenderJob(source, options, await getSourceView(source, options));
+  const worker = getPdfWorker();
+  const pageStarts = worker ? await runInWorker(worker, 'plan', job) : await planPages(job);
+  return pageStarts.slice(1);
+}
+
 /**
- * Splits a long image into parts that fit perfectly onto PDF pages
+ * Splits a long image into parts that fit perfectly onto PDF pages.
+ * When `cuts` is given those rows are used as page breaks instead of
+ * computing them from `segmentHeightPx`.
+ *
+ * Slicing and encoding run in a worker when the browser supports
+ * OffscreenCanvas there; otherwise the same renderer runs in this thread.
  */
 export async function generatePdfPages(
-  dataUrl: string, 
-  originalWidth: number, 
-  originalHeight: number, 
-  options: PdfOptions
+  source: SourceImage, 
+  options: PdfOptions,
+  cuts?: number[],
+  generateOptions: GenerateOptions = {}
 ): Promise<ProcessedPage[]> {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const { pageSize, orientation, margin } = options;
-      const baseDim = PAGE_DIMENSIONS[pageSize];
-      
-      const pageWidthMm = orientation === Orientation.Portrait ? baseDim.width : baseDim.height;
-      const pageHeightMm = orientation === Orientation.Portrait ? baseDim.height : baseDim.width;
-      
-      const printableWidthMm = pageWidthMm - (margin * 2);
-      const printableHeightMm = pageHeightMm - (margin * 2);
-      
-      // Calculate scaling to fit image width to printable width
-      // We want to preserve aspect ratio. 
-      // 1mm = 3.7795 px approximately at 96 DPI, but jsPDF uses points.
-      // Let's stick to consistent aspect ratio logic.
-      const scale = originalWidth / printableWidthMm;
-      const segmentHeightPx = printableHeightMm * scale;
-      
-      const totalPages = Math.ceil(originalHeight / segmentHeightPx);
-      const pages: ProcessedPage[] = [];
-      
-      for (let i = 0; i < totalPages; i++) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) continue;
-        
-        const currentY = i * segmentHeightPx;
-        const remainingHeight = originalHeight - currentY;
-        const captureHeight = Math.min(segmentHeightPx, remainingHeight);
-        
-        // Output dimensions for this specific canvas
-        canvas.width = originalWidth;
-        canvas.height = segmentHeightPx; // Keep canvas fixed to page height for uniform display
-        
-        // Fill white background for the last page if it's shorter
-        ctx.fillStyle = 'white';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw the sliced part
-        ctx.drawImage(
-          img,
-          0, currentY, originalWidth, captureHeight, // Source
-          0, 0, originalWidth, captureHeight // Destination
-        );
-        
-        pages.push({
-          dataUrl: canvas.toDataURL('image/jpeg', options.quality),
-          width: canvas.width,
-          height: canvas.height
-        });
-      }
-      
-      resolve(pages);
-    };
-    img.src = dataUrl;
+  const view = await getSourceView(source, options);
+  const job = toRenderJob(source, options, view, cuts, generateOptions.outputScale);
+  const worker = getPdfWorker();
+  if (worker) {
+    return runInWorker(worker, 'render', job, generateOptions);
+  }
+
+  const { onProgress, signal } = generateOptions;
+  const hooks: RenderHooks = { onProgress, isCancelled: () => !!signal?.aborted };
+  return renderPages(job, hooks);
+}
+
+/**
+ * Writes a page's OCR words as invisible text over the image, stretched to
+ * each word's box so selection and search highlight the right spot
+ */
+function drawTextLayer(pdf: jsPDF, page: ProcessedPage, x: number, y: number, drawWidth: number) {
+  const mmPerPx = drawWidth / page.width;
+  for (const word of page.textLayer ?? []) {
+    const heightMm = word.height * mmPerPx;
+    pdf.setFontSize(heightMm / MM_PER_PT);
+    const naturalWidth = pdf.getTextWidth(word.text);
+    if (naturalWidth <= 0) continue;
+
+    pdf.text(word.text, x + word.x * mmPerPx, y + (word.y + word.height) * mmPerPx, {
+      baseline: 'bottom',
+      renderingMode: 'invisible',
+      horizontalScale: (word.width * mmPerPx) / naturalWidth
+    });
+  }
+}
+
+// Outline entry resolved against the pages of a source
+export interface PdfBookmark {
+  sourceId: string;
+  y: number; // source row
+  title: string;
+}
+
+// Document-level data that is not part of the reusable options
+export interface PdfContext {
+  filename?: string; // for the {filename} template token
+  properties?: DocumentProperties;
+  bookmarks?: PdfBookmark[];
+}
+
+// The internal jsPDF API used to extend the document catalog
+interface JsPdfInternal {
+  events: { subscribe: (name: string, callback: () => void) => void };
+  out: (line: string) => void;
+  pdfEscape: (text: string) => string;
+}
+
+/**
+ * Encodes text for a PDF string. jsPDF writes strings byte-for-byte, so
+ * anything beyond ASCII is passed as UTF-16BE with a byte order mark.
+ */
+function toPdfText(text: string): string {
+  if (/^[\x00-\x7f]*$/.test(text)) return text;
+  let encoded = '\u00fe\u00ff';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    encoded += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return encoded;
+}
+
+/**
+ * Adds a /PageLabels entry to the catalog so viewers show the chosen numbering
+ */
+function addPageLabels(pdf: jsPDF, { style, prefix, start }: PageLabelOptions) {
+  if (style === PageLabelStyle.None && !prefix) return;
+
+  const internal = pdf.internal as unknown as JsPdfInternal;
+  const parts = [`/St ${Math.max(1, Math.floor(start))}`];
+  if (style !== PageLabelStyle.None) parts.unshift(`/S /${style}`);
+  if (prefix) parts.push(`/P (${internal.pdfEscape(toPdfText(prefix))})`);
+
+  internal.events.subscribe('putCatalog', () => {
+    internal.out(`/PageLabels << /Nums [0 << ${parts.join(' ')} >>] >>`);
+  });
+}
+
+/**
+ * Writes title, author, subject and keywords into the document info
+ */
+function applyProperties(pdf: jsPDF, properties: DocumentProperties) {
+  const info: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value.trim()) info[key] = toPdfText(value.trim());
+  }
+  pdf.setProperties(info);
+}
+
+/**
+ * Resolves bookmarks to page numbers and adds them to the outline in page order
+ */
+function addOutline(pdf: jsPDF, sheets: Sheet[], bookmarks: PdfBookmark[]) {
+  const entries = bookmarks
+    .map(bookmark => {
+      // Positions above the first page (cropped away) belong to that page
+      const pageIndex = sheets.findIndex(sheet => sheet.placements.some(({ page }) =>
+        page.sourceId === bookmark.sourceId
+        && bookmark.y < page.sourceY + page.sourceHeight
+      ));
+      return { title: bookmark.title.trim(), pageIndex, y: bookmark.y };
+    })
+    .filter(entry => entry.pageIndex !== -1 && entry.title)
+    .sort((a, b) => a.pageIndex - b.pageIndex || a.y - b.y);
+
+  if (entries.length === 0) return;
+  for (const entry of entries) {
+    pdf.outline.add(null, toPdfText(entry.title), { pageNumber: entry.pageIndex + 1 });
+  }
+  // Open with the bookmarks panel visible
+  pdf.setDisplayMode('fullwidth', 'continuous', 'UseOutlines');
+}
+
+/**
+ * Replaces {page}, {total}, {filename} and {date} in a template
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+/**
+ * Draws header, footer and watermark on a page, which is the whole sheet
+ * unless the sheet was imposed
+ */
+function drawDecorations(
+  pdf: jsPDF,
+  options: PdfOptions,
+  frame: PageFrame,
+  values: Record<string, string | number>
+) {
+  const { margin, headerTemplate, footerTemplate, watermark } = options;
+  const { x: left, y: top, width: pageWidth, height: pageHeight } = frame;
+
+  pdf.setFontSize(DECORATION_FONT_SIZE);
+  pdf.setTextColor(DECORATION_COLOR);
+  // Centre the text inside the margin; hug the edge when there is no margin
+  const inset = Math.max((margin * frame.scale) / 2, DECORATION_FONT_SIZE * MM_PER_PT);
+  if (headerTemplate.trim()) {
+    pdf.text(fillTemplate(headerTemplate, values), left + pageWidth / 2, top + inset, { align: 'center', baseline: 'middle' });
+  }
+  if (footerTemplate.trim()) {
+    pdf.text(fillTemplate(footerTemplate, values), left + pageWidth / 2, top + pageHeight - inset, { align: 'center', baseline: 'middle' });
+  }
+
+  if (watermark.type === WatermarkType.None) return;
+
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: watermark.opacity, 'stroke-opacity': watermark.opacity }));
+  if (watermark.type === WatermarkType.Text && watermark.text.trim()) {
+    const diagonal = Math.hypot(pageWidth, pageHeight);
+    const angle = (Math.atan2(pageHeight, pageWidth) * 180) / Math.PI;
+    pdf.setFontSize((diagonal * WATERMARK_TEXT_RATIO) / MM_PER_PT);
+    pdf.setTextColor(150);
+    pdf.text(watermark.text, left + pageWidth / 2, top + pageHeight / 2, { align: 'center', baseline: 'middle', angle });
+  } else if (watermark.type === WatermarkType.Image && watermark.imageDataUrl) {
+    const { width, height } = pdf.getImageProperties(watermark.imageDataUrl);
+    const drawWidth = pageWidth * WATERMARK_IMAGE_RATIO;
+    const drawHeight = drawWidth * (height / width);
+    pdf.addImage(watermark.imageDataUrl, left + (pageWidth - drawWidth) / 2, top + (pageHeight - drawHeight) / 2, drawWidth, drawHeight);
+  }
+  pdf.restoreGraphicsState();
+}
+
+// A rendered slice placed on a sheet, in mm from the sheet's top-left corner
+export interface SheetPlacement {
+  page: ProcessedPage;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visibleHeight?: number; // top part of the drawn height that is shown; the rest is padding cut off
+}
+
+// A page placed on a sheet, in mm from the sheet's top-left corner
+export interface PageFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: number; // of the page on the sheet
+  pageNumber: number; // from 1, in reading order
+}
+
+// One physical PDF page
+export interface Sheet {
+  widthMm: number;
+  heightMm: number;
+  placements: SheetPlacement[];
+  tile?: PosterTile; // poster mode: the tile printed on this sheet
+  frames?: PageFrame[]; // booklet: the pages on this sheet side; blank padding has none
+}
+
+/**
+ * Pages of a sheet that get their own header, footer and watermark: the
+ * pages of an imposed sheet, otherwise the sheet itself
+ */
+export function sheetFrames(sheet: Sheet, sheetIndex: number): PageFrame[] {
+  return sheet.frames ?? [{ x: 0, y: 0, width: sheet.widthMm, height: sheet.heightMm, scale: 1, pageNumber: sheetIndex + 1 }];
+}
+
+// Grid of pages per sheet for n-up; 2-up turns the paper to fit two pages side by side
+const N_UP_GRIDS: Record<number, { cols: number; rows: number; rotate: boolean }> = {
+  1: { cols: 1, rows: 1, rotate: false },
+  2: { cols: 2, rows: 1, rotate: true },
+  4: { cols: 2, rows: 2, rotate: false }
+};
+
+/**
+ * Grid name of a tile: rows are lettered and columns numbered, like a map
+ */
+export function posterLabel(row: number, column: number, rows: number): string {
+  return rows <= 26 ? `${String.fromCharCode(65 + row)}${column + 1}` : `${row + 1}-${column + 1}`;
+}
+
+/**
+ * Draws, in the margins around a poster tile, crop marks at its corners,
+ * dashed guides where the content shared with a neighbour begins,
+ * registration targets named after the neighbour on each joining side, and
+ * the tile's own label. Skipped when the margin has no room for them.
+ */
+function drawPosterMarks(pdf: jsPDF, sheet: Sheet, tile: PosterTile) {
+  const { x: left, y: top, width, height } = sheet.placements[0];
+  const right = left + width;
+  const bottom = top + height;
+  const room = Math.min(left, top, sheet.widthMm - right, sheet.heightMm - bottom) - MARK_GAP;
+  if (room < 1) return;
+  const length = Math.min(MARK_LENGTH, room);
+  const reach = MARK_GAP + length;
+
+  pdf.saveGraphicsState();
+  pdf.setDrawColor(0);
+  pdf.setLineWidth(MARK_LINE_WIDTH);
+  for (const [cx, dx] of [[left, -1], [right, 1]]) {
+    for (const [cy, dy] of [[top, -1], [bottom, 1]]) {
+      pdf.line(cx + dx * MARK_GAP, cy, cx + dx * reach, cy);
+      pdf.line(cx, cy + dy * MARK_GAP, cx, cy + dy * reach);
+    }
+  }
+
+  // Guides in the top and left margins only; the bottom one holds the label and footer
+  pdf.setLineDashPattern([1, 1], 0);
+  if (tile.column > 0) pdf.line(left + tile.overlap, top - MARK_GAP, left + tile.overlap, top - reach);
+  if (tile.column < tile.columns - 1) pdf.line(right - tile.overlap, top - MARK_GAP, right - tile.overlap, top - reach);
+  if (tile.row > 0) pdf.line(left - MARK_GAP, top + tile.overlap, left - reach, top + tile.overlap);
+  if (tile.row < tile.rows - 1) pdf.line(left - MARK_GAP, bottom - tile.overlap, left - reach, bottom - tile.overlap);
+  pdf.setLineDashPattern([], 0);
+
+  pdf.setFontSize(DECORATION_FONT_SIZE);
+  pdf.setTextColor(0);
+  const radius = length / 4;
+  // Off centre above and below, clear of the header and footer
+  const targetX = left + width * 0.75;
+  const neighbours = [
+    { row: tile.row - 1, column: tile.column, x: targetX, y: top - MARK_GAP - length / 2, side: true },
+    { row: tile.row + 1, column: tile.column, x: targetX, y: bottom + MARK_GAP + length / 2, side: true },
+    { row: tile.row, column: tile.column - 1, x: left - MARK_GAP - length / 2, y: (top + bottom) / 2, side: false },
+    { row: tile.row, column: tile.column + 1, x: right + MARK_GAP + length / 2, y: (top + bottom) / 2, side: false }
+  ];
+  for (const { row, column, x, y, side } of neighbours) {
+    if (row < 0 || row >= tile.rows || column < 0 || column >= tile.columns) continue;
+    pdf.circle(x, y, radius, 'S');
+    pdf.line(x - radius * 1.6, y, x + radius * 1.6, y);
+    pdf.line(x, y - radius * 1.6, x, y + radius * 1.6);
+    // Above and below the name goes beside the target; in the side margins underneath it
+    const label = posterLabel(row, column, tile.rows);
+    if (side) pdf.text(label, x + radius * 2 + 1, y, { baseline: 'middle' });
+    else pdf.text(label, x, y + radius * 2 + 1, { align: 'center', baseline: 'top' });
+  }
+
+  pdf.text(
+    // Latin text only, so the label needs no embedded font
+    `${posterLabel(tile.row, tile.column, tile.rows)} - row ${tile.row + 1}/${tile.rows}, column ${tile.column + 1}/${tile.columns}`,
+    left + MARK_GAP, bottom + MARK_GAP + length / 2,
+    { baseline: 'middle' }
+  );
+  pdf.restoreGraphicsState();
+}
+
+/**
+ * Lays out the slices of one source on pages: slices flow through the
+ * columns, then the last page is padded, shrunk or merged as configured
+ * (single-column layouts only; multi-column pages keep their shape).
+ */
+function layoutSourcePages(slices: ProcessedPage[], options: PdfOptions): Sheet[] {
+  const { margin, columnGap } = options;
+  const layoutOf = (page: ProcessedPage) => getPageLayout(options, page.width / page.pixelScale);
+
+  const pages: Sheet[] = [];
+  slices.forEach((page, idx) => {
+    const layout = layoutOf(page);
+    const column = idx % layout.columns;
+    if (column === 0) {
+      pages.push({ widthMm: layout.pageWidthMm, heightMm: layout.pageHeightMm, placements: [] });
+    }
+    pages[pages.length - 1].placements.push({
+      page,
+      x: margin + column * (layout.columnWidthMm + columnGap) + layout.alignOffsetMm,
+      y: margin,
+      width: layout.drawWidthMm,
+      height: layout.printableHeightMm
+    });
+  });
+
+  const last = slices[slices.length - 1];
+  if (!last || options.columns > 1 || options.lastPage === LastPageMode.Pad) return pages;
+
+  const layout = layoutOf(last);
+  const tailMm = (last.contentHeight / last.height) * layout.printableHeightMm;
+
+  if (options.lastPage === LastPageMode.Merge && slices.length > 1) {
+    // Squeeze the page before and the tail together onto one page
+    const scale = layout.printableHeightMm / (layout.printableHeightMm + tailMm);
+    const previous = slices[slices.length - 2];
+    const previousLayout = layoutOf(previous);
+    if (scale >= MERGE_MIN_SCALE && previousLayout.pageHeightMm === layout.pageHeightMm) {
+      const width = layout.drawWidthMm * scale;
+      const x = margin + (layout.columnWidthMm - width) * ALIGN_FACTORS[options.align];
+      const height = layout.printableHeightMm * scale;
+      pages.splice(pages.length - 2, 2, {
+        widthMm: layout.pageWidthMm,
+        heightMm: layout.pageHeightMm,
+        placements: [
+          { page: previous, x, y: margin, width, height },
+          { page: last, x, y: margin + height, width, height, visibleHeight: tailMm * scale }
+        ]
+      });
+    }
+  } else if (options.lastPage === LastPageMode.Shrink) {
+    const page = pages[pages.length - 1];
+    page.heightMm = tailMm + margin * 2;
+    page.placements[0].visibleHeight = tailMm;
+  }
+
+  return pages;
+}
+
+/**
+ * A placement moved and scaled along with the page it is on
+ */
+function scalePlacement(placement: SheetPlacement, offsetX: number, offsetY: number, scale: number): SheetPlacement {
+  return {
+    page: placement.page,
+    x: offsetX + placement.x * scale,
+    y: offsetY + placement.y * scale,
+    width: placement.width * scale,
+    height: placement.height * scale,
+    ...(placement.visibleHeight !== undefined ? { visibleHeight: placement.visibleHeight * scale } : {})
+  };
+}
+
+/**
+ * Moves the content of each page away from its binding edge by the gutter.
+ * Single-sided output binds every page on the left; in duplex and booklets
+ * right-hand pages (odd numbers) bind left and left-hand pages bind right.
+ */
+function applyGutter(pages: Sheet[], options: PdfOptions): Sheet[] {
+  const { gutter, mirrorMargins, layout } = options.print;
+  if (gutter <= 0) return pages;
+  const mirrored = mirrorMargins || layout === PrintLayout.Booklet;
+  return pages.map((page, idx) => {
+    const shift = !mirrored || idx % 2 === 0 ? gutter : 0;
+    return { ...page, placements: page.placements.map(placement => ({ ...placement, x: placement.x + shift })) };
   });
 }
 
 /**
- * Compiles processed pages into a single PDF blob
+ * Saddle-stitch imposition. Pages are padded with blanks to a multiple of
+ * four and paired so that the printed stack, folded in the middle and
+ * stapled, reads in order: the outermost sheet carries the last and first
+ * pages on its front and the second and second-to-last on its back. Each
+ * side is the paper of the first page turned, with two pages scaled into
+ * its halves against the fold.
+ */
+function imposeBooklet(pages: Sheet[]): Sheet[] {
+  if (pages.length === 0) return [];
+  const count = Math.ceil(pages.length / 4) * 4;
+  const widthMm = pages[0].heightMm;
+  const heightMm = pages[0].widthMm;
+  const halfWidth = widthMm / 2;
+
+  const side = (left: number, right: number): Sheet => {
+    const placements: SheetPlacement[] = [];
+    const frames: PageFrame[] = [];
+    for (const [slot, index] of [left, right].entries()) {
+      const page = pages[index];
+      if (!page) continue;
+      const scale = Math.min(halfWidth / page.widthMm, heightMm / page.heightMm);
+      const offsetX = slot === 0 ? halfWidth - page.widthMm * scale : halfWidth;
+      const offsetY = (heightMm - page.heightMm * scale) / 2;
+      placements.push(...page.placements.map(placement => scalePlacement(placement, offsetX, offsetY, scale)));
+      frames.push({
+        x: offsetX,
+        y: offsetY,
+        width: page.widthMm * scale,
+        height: page.heightMm * scale,
+        scale,
+        pageNumber: index + 1
+      });
+    }
+    return { widthMm, heightMm, placements, frames };
+  };
+
+  const sides: Sheet[] = [];
+  for (let sheet = 0; sheet < count / 4; sheet++) {
+    sides.push(side(count - 1 - 2 * sheet, 2 * sheet));
+    sides.push(side(2 * sheet + 1, count - 2 - 2 * sheet));
+  }
+  return sides;
+}
+
+/**
+ * Arranges rendered slices on sheets. Slices of a source flow through the
+ * columns of a page (a new source always starts a new page) and are moved
+ * off the binding edge by the gutter. A booklet then imposes these pages;
+ * with n-up several of them are scaled down onto one sheet, left to right
+ * and top to bottom.
+ */
+export function layoutSheets(pages: ProcessedPage[], options: PdfOptions): Sheet[] {
+  // Poster tiles each fill the printable area of their own sheet
+  if (options.poster.enabled) {
+    const { pageWidthMm, pageHeightMm, printableWidthMm, printableHeightMm } = posterPaper(options);
+    return pages.map(page => ({
+      widthMm: pageWidthMm,
+      heightMm: pageHeightMm,
+      placements: [{
+        page,
+        x: options.margin,
+        y: options.margin,
+        width: page.tile?.width ?? printableWidthMm,
+        height: page.tile?.height ?? printableHeightMm
+      }],
+      tile: page.tile
+    }));
+  }
+
+  // Consecutive slices of the same source
+  const runs: ProcessedPage[][] = [];
+  for (const page of pages) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].sourceId === page.sourceId) run.push(page);
+    else runs.push([page]);
+  }
+  const logical = applyGutter(runs.flatMap(run => layoutSourcePages(run, options)), options);
+  if (options.print.layout === PrintLayout.Booklet) return imposeBooklet(logical);
+
+  const grid = N_UP_GRIDS[options.nUp] ?? N_UP_GRIDS[1];
+  if (grid.cols * grid.rows === 1) return logical;
+
+  const sheets: Sheet[] = [];
+  const perSheet = grid.cols * grid.rows;
+  for (let start = 0; start < logical.length; start += perSheet) {
+    const group = logical.slice(start, start + perSheet);
+    // The sheet is the paper of the first page, turned for 2-up
+    const first = group[0];
+    const widthMm = grid.rotate ? first.heightMm : first.widthMm;
+    const heightMm = grid.rotate ? first.widthMm : first.heightMm;
+    const cellWidth = widthMm / grid.cols;
+    const cellHeight = heightMm / grid.rows;
+
+    const placements = group.flatMap((page, idx) => {
+      const scale = Math.min(cellWidth / page.widthMm, cellHeight / page.heightMm);
+      // Centre each page in its cell
+      const offsetX = (idx % grid.cols) * cellWidth + (cellWidth - page.widthMm * scale) / 2;
+      const offsetY = Math.floor(idx / grid.cols) * cellHeight + (cellHeight - page.heightMm * scale) / 2;
+      return page.placements.map(placement => scalePlacement(placement, offsetX, offsetY, scale));
+    });
+    sheets.push({ widthMm, heightMm, placements });
+  }
+  return sheets;
+}
+
+/**
+ * Compiles processed pages into a single PDF blob.
+ * Pages may come from several sources; they are written in array order.
  */
-export async function createPdfBlob(pages: ProcessedPage[], options: PdfOptions): Promise<Blob> {
-  const { pageSize, orientation, margin } = options;
+export async function createPdfBlob(
+  pages: ProcessedPage[],
+  options: PdfOptions,
+  context: PdfContext = {}
+): Promise<Blob> {
+  const { headerTemplate, footerTemplate, watermark } = options;
+  // Paper can differ per sheet ("fit to image width" with sources of different widths)
+  const sheets = layoutSheets(pages, options);
+  const format = (sheet: Sheet): [number, number] => [sheet.widthMm, sheet.heightMm];
+  const orientationOf = (sheet: Sheet) =>
+    sheet.widthMm > sheet.heightMm ? Orientation.Landscape : Orientation.Portrait;
+
   const pdf = new jsPDF({
-    orientation: orientation,
+    orientation: sheets.length > 0 ? orientationOf(sheets[0]) : options.orientation,
     unit: 'mm',
-    format: pageSize.toLowerCase()
+    format: sheets.length > 0 ? format(sheets[0]) : 'a4'
   });
 
-  const baseDim = PAGE_DIMENSIONS[pageSize];
-  const pageWidth = orientation === Orientation.Portrait ? baseDim.width : baseDim.height;
-  const pageHeight = orientation === Orientation.Portrait ? baseDim.height : baseDim.width;
-  
-  const drawWidth = pageWidth - (margin * 2);
-  const drawHeight = pageHeight - (margin * 2);
+  // Everything written as text, to check it against the font that is available
+  const texts = [
+    ...pages.flatMap(page => page.textLayer?.map(word => word.text) ?? []),
+    ...[headerTemplate, footerTemplate].filter(template => template.trim()),
+    ...(watermark.type === WatermarkType.Text ? [watermark.text] : []).filter(text => text.trim())
+  ];
+  if (texts.some(text => text.includes('{filename}'))) texts.push(context.filename ?? '');
+  if (texts.length > 0) {
+    pdf.setFont(await registerCjkFont(pdf, texts));
+  }
+
+  const templateValues = {
+    // Pages, not sheets: a booklet numbers the pages it folds together
+    total: sheets.reduce((sum, sheet, idx) => sum + sheetFrames(sheet, idx).length, 0),
+    filename: context.filename ?? '',
+    date: new Date().toLocaleDateString('zh-CN')
+  };
 
-  pages.forEach((page, idx) => {
+  sheets.forEach((sheet, idx) => {
     if (idx > 0) {
-      pdf.addPage(pageSize.toLowerCase(), orientation);
+      pdf.addPage(format(sheet), orientationOf(sheet));
+    }
+
+    for (const { page, x, y, width, height, visibleHeight } of sheet.placements) {
+      const clipped = visibleHeight !== undefined && visibleHeight < height;
+      if (clipped) {
+        pdf.saveGraphicsState();
+        pdf.rect(x, y, width, visibleHeight, null);
+        pdf.clip();
+        pdf.discardPath();
+      }
+      pdf.addImage(
+        page.dataUrl, 
+        page.format, 
+        x, 
+        y, 
+        width, 
+        height,
+        undefined,
+        // Only affects PNG pages, which jsPDF re-compresses with Flate
+        page.format === 'PNG' ? 'MEDIUM' : 'FAST'
+      );
+      if (clipped) pdf.restoreGraphicsState();
+
+      if (page.textLayer?.length) {
+        drawTextLayer(pdf, page, x, y, width);
+      }
+    }
+
+    if (sheet.tile && options.poster.marks) drawPosterMarks(pdf, sheet, sheet.tile);
+
+    for (const frame of sheetFrames(sheet, idx)) {
+      drawDecorations(pdf, options, frame, { ...templateValues, page: frame.pageNumber });
     }
-    
-    // Add image to page
-    pdf.addImage(
-      page.dataUrl, 
-      'JPEG', 
-      margin, 
-      margin, 
-      drawWidth, 
-      drawHeight,
-      undefined,
-      'FAST'
-    );
   });
 
+  if (context.properties) applyProperties(pdf, context.properties);
+  if (context.bookmarks) addOutline(pdf, sheets, context.bookmarks);
+  // Booklet sides hold pages out of reading order, so no label sequence fits
+  // them; the footers already carry each page's own number
+  if (options.print.layout !== PrintLayout.Booklet) addPageLabels(pdf, options.pageLabels);
+
   return pdf.output('blob');
 }
+
+// Rough per-page cost of PDF objects around each embedded image
+const PAGE_OVERHEAD_BYTES = 1500;
+
+/**
+ * Estimates the PDF size from the encoded page images, without building it
+ */
+export function estimatePdfSize(pages: ProcessedPage[]): number {
+  return pages.reduce((total, page) => {
+    const base64Length = page.dataUrl.length - page.dataUrl.indexOf(',') - 1;
+    return total + Math.floor(base64Length * 3 / 4) + PAGE_OVERHEAD_BYTES;
+  }, 0);
+}
+
+/**
+ * Collects the named bookmarks of all sources. With several sources each one
+ * also gets an entry titled after its file unless it already names its start.
+ */
+export function collectBookmarks(sources: SourceImage[], includeSourceTitles: boolean): PdfBookmark[] {
+  return sources.flatMap(source => {
+    const own = (source.bookmarks ?? []).map(bookmark => ({ sourceId: source.id, ...bookmark }));
+    if (!includeSourceTitles || own.some(bookmark => bookmark.y === 0)) return own;
+    return [{ sourceId: source.id, y: 0, title: baseName(source.metadata.name) }, ...own];
+  });
+}
@@ -0,0 +1,75 @@
+// Dedicated worker that slices and encodes pages, and runs the other
+// whole-image scans (cleanup detection, seam detection), off the main thread.
+import { renderPages, planPages, planSourceView, RenderJob, RenderHooks } from './pageRenderer';
+import { planSeams } from './seamFinder';
+import { CleanupOptions, ProcessedPage, Redaction, SourceImage, SourceView, StitchSeam } from '../types';
+
+// Source to work out the cleanup view for, see planSourceView
+export interface ViewJob {
+  dataUrl: string;
+  width: number;
+  height: number;
+  redactions: Redaction[];
+  cleanup: CleanupOptions;
+}
+
+// Input and result of each kind of task the worker runs
+export interface WorkerTasks {
+  render: { input: RenderJob; result: ProcessedPage[] };
+  plan: { input: RenderJob; result: number[] }; // page starts in source rows
+  view: { input: ViewJob; result: SourceView };
+  seams: { input: SourceImage[]; result: StitchSeam[] };
+}
+
+export type WorkerTask = keyof WorkerTasks;
+
+export type WorkerRequest =
+  | { [K in WorkerTask]: { type: K; jobId: number; input: WorkerTasks[K]['input'] } }[WorkerTask]
+  | { type: 'cancel'; jobId: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; done: number; total: number }
+  | { type: 'done'; jobId: number; result: WorkerTasks[WorkerTask]['result'] }
+  | { type: 'error'; jobId: number; message: string; cancelled: boolean };
+
+// The project compiles against the DOM lib, so describe the bits of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+const tasks: { [K in WorkerTask]: (input: WorkerTasks[K]['input'], hooks: RenderHooks) => Promise<WorkerTasks[K]['result']> } = {
+  render: renderPages,
+  plan: planPages,
+  view: job => planSourceView(job.dataUrl, job.width, job.height, job.redactions, job.cleanup),
+  seams: captures => planSeams(captures)
+};
+
+const cancelledJobs = new Set<number>();
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    cancelledJobs.add(request.jobId);
+    return;
+  }
+
+  const { jobId } = request;
+  const run = tasks[request.type] as (input: unknown, hooks: RenderHooks) => Promise<WorkerTasks[WorkerTask]['result']>;
+  try {
+    const result = await run(request.input, {
+      onProgress: (done, total) => scope.postMessage({ type: 'progress', jobId, done, total }),
+      isCancelled: () => cancelledJobs.has(jobId)
+    });
+    scope.postMessage({ type: 'done', jobId, result });
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      jobId,
+      message: err instanceof Error ? err.message : String(err),
+      cancelled: err instanceof DOMException && err.name === 'AbortError'
+    });
+  } finally {
+    cancelledJobs.delete(jobId);
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PageSize } from '../types';
+import { DEFAULT_PDF_OPTIONS, OPTION_LIMITS, parsePresetFile } from './presetService';
+
+const presetFile = (options: unknown, name = '打印') =>
+  JSON.stringify({ format: 'longimg2pdf-presets', version: 1, presets: [{ name, options }] });
+
+describe('parsePresetFile', () => {
+  it('fills options missing from older files with the defaults', () => {
+    const [preset] = parsePresetFile(presetFile({ pageSize: PageSize.Letter, poster: { enabled: true } }));
+    expect(preset.name).toBe('打印');
+    expect(preset.options).toEqual({
+      ...DEFAULT_PDF_OPTIONS,
+      pageSize: PageSize.Letter,
+      poster: { ...DEFAULT_PDF_OPTIONS.poster, enabled: true }
+    });
+  });
+
+  it('clamps numbers into the ranges the settings allow', () => {
+    const [{ options }] = parsePresetFile(presetFile({
+      margin: 80,
+      quality: 0.01,
+      dpi: 5000,
+      columns: 9,
+      poster: { overlap: -4 },
+      print: { gutter: 100 }
+    }));
+    expect(options.margin).toBe(OPTION_LIMITS.margin.max);
+    expect(options.quality).toBe(OPTION_LIMITS.quality.min);
+    expect(options.dpi).toBe(OPTION_LIMITS.dpi.max);
+    expect(options.columns).toBe(OPTION_LIMITS.columns.max);
+    expect(options.poster.overlap).toBe(0);
+    expect(options.print.gutter).toBe(OPTION_LIMITS.gutter.max);
+  });
+
+  it('keeps null where an option may be off', () => {
+    const [{ options }] = parsePresetFile(presetFile({ dpi: null, targetSizeMb: null }));
+    expect([options.dpi, options.targetSizeMb]).toEqual([null, null]);
+  });
+
+  it('rejects values of the wrong type or outside the choices, naming the preset and option', () => {
+    expect(() => parsePresetFile(presetFile({ margin: '10' })))
+      .toThrow('预设“打印”无法导入：选项 margin 的值 "10" 无效，应为数字');
+    expect(() => parsePresetFile(presetFile({ columns: 2.5 }))).toThrow('选项 columns 的值 2.5 无效，应为整数');
+    expect(() => parsePresetFile(presetFile({ pageSize: 'B7' }))).toThrow('选项 pageSize');
+    expect(() => parsePresetFile(presetFile({ nUp: 3 }))).toThrow('选项 nUp');
+    expect(() => parsePresetFile(presetFile({ watermark: 'none' }))).toThrow('选项 watermark 的值 "none" 无效，应为对象');
+    expect(() => parsePresetFile(presetFile({ cleanup: { trimSides: 'yes' } }))).toThrow('选项 cleanup.trimSides');
+  });
+
+  it('rejects files that are not presets', () => {
+    expect(() => parsePresetFile('{')).toThrow('不是有效的 JSON 文件');
+    expect(() => parsePresetFile(JSON.stringify({ margin: 10 }))).toThrow('文件中没有可用的预设');
+    expect(() => parsePresetFile(presetFile({}, ' '))).toThrow('文件中没有可用的预设');
+  });
+
+  it('accepts a bare array of presets', () => {
+    const presets = parsePresetFile(JSON.stringify([{ name: 'A', options: {} }, { name: 'B', options: { margin: 0 } }]));
+    expect(presets.map(preset => [preset.name, preset.options.margin])).toEqual([['A', 10], ['B', 0]]);
+  });
+});
@@ -0,0 +1,294 @@
+// Default options and named presets: stored in localStorage, exported and
+// imported as JSON files
+import {
+  PageSize, Orientation, ScaleMode, HorizontalAlign, LastPageMode, PageEncoding,
+  WatermarkType, PageLabelStyle, PrintLayout, PdfOptions, PdfPreset
+} from '../types';
+
+const STORAGE_KEY = 'longimg2pdf.presets';
+// Marks exported files so unrelated JSON is rejected on import
+const FILE_FORMAT = 'longimg2pdf-presets';
+const FILE_VERSION = 1;
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: PageSize.A4,
+  customWidth: 210,
+  customHeight: 297,
+  customUnit: 'mm',
+  orientation: Orientation.Portrait,
+  margin: 10,
+  columns: 1,
+  columnGap: 6,
+  nUp: 1,
+  scaleMode: ScaleMode.FitWidth,
+  maxScale: 1,
+  scalePercent: 100,
+  align: HorizontalAlign.Center,
+  lastPage: LastPageMode.Pad,
+  quality: 0.9,
+  encoding: PageEncoding.Auto,
+  dpi: null,
+  smartSplit: true,
+  splitTolerance: 0.15,
+  searchable: false,
+  targetSizeMb: null,
+  headerTemplate: '',
+  footerTemplate: '第 {page} / {total} 页',
+  watermark: {
+    type: WatermarkType.None,
+    text: '内部资料 CONFIDENTIAL',
+    imageDataUrl: null,
+    opacity: 0.15
+  },
+  pageLabels: {
+    style: PageLabelStyle.None,
+    prefix: '',
+    start: 1
+  },
+  cleanup: {
+    cropTop: 0,
+    cropBottom: 0,
+    trimSides: false,
+    removeRepeatedBars: false
+  },
+  poster: {
+    enabled: false,
+    widthMm: 594,
+    overlap: 10,
+    marks: true
+  },
+  print: {
+    layout: PrintLayout.Normal,
+    gutter: 0,
+    mirrorMargins: false
+  }
+};
+
+export interface OptionRange {
+  min: number;
+  max: number;
+}
+
+// Ranges of the numeric options. The settings panels and the CLI flags use
+// them as their limits; imported presets are clamped into them.
+export const OPTION_LIMITS = {
+  customSize: { min: 1, max: 5000 }, // in the custom unit; the layout rejects paper too small to print on
+  margin: { min: 0, max: 50 },
+  columns: { min: 1, max: 4 },
+  columnGap: { min: 0, max: 20 },
+  maxScale: { min: 0.5, max: 3 },
+  scalePercent: { min: 10, max: 400 },
+  quality: { min: 0.1, max: 1 },
+  dpi: { min: 30, max: 1200 },
+  splitTolerance: { min: 0.05, max: 0.5 },
+  targetSizeMb: { min: 0.1, max: Infinity },
+  watermarkOpacity: { min: 0.05, max: 0.6 },
+  labelStart: { min: 1, max: Infinity },
+  crop: { min: 0, max: Infinity },
+  posterWidth: { min: 50, max: Infinity },
+  posterOverlap: { min: 0, max: 30 },
+  gutter: { min: 0, max: 25 }
+} satisfies Record<string, OptionRange>;
+
+// Accepted values of one option, with the wording used when a file breaks it
+interface OptionRule {
+  valid: (value: unknown) => boolean;
+  expected: string;
+  // Brings a valid value into range
+  clamp?: (value: unknown) => unknown;
+}
+
+function oneOf(values: readonly unknown[]): OptionRule {
+  return { valid: value => values.includes(value), expected: values.map(value => JSON.stringify(value)).join('、') + ' 之一' };
+}
+
+function between({ min, max }: OptionRange, integer = false): OptionRule {
+  return {
+    valid: value => typeof value === 'number' && Number.isFinite(value) && (!integer || Number.isInteger(value)),
+    expected: integer ? '整数' : '数字',
+    clamp: value => Math.min(max, Math.max(min, value as number))
+  };
+}
+
+function nullable(rule: OptionRule): OptionRule {
+  return {
+    valid: value => value === null || rule.valid(value),
+    expected: `null 或${rule.expected}`,
+    clamp: value => (value === null ? null : rule.clamp ? rule.clamp(value) : value)
+  };
+}
+
+const text: OptionRule = { valid: value => typeof value === 'string', expected: '字符串' };
+const flag: OptionRule = { valid: value => typeof value === 'boolean', expected: 'true 或 false' };
+
+// Nested groups are checked field by field
+const OPTION_RULES: { [K in keyof PdfOptions]: PdfOptions[K] extends object ? Record<keyof PdfOptions[K], OptionRule> : OptionRule } = {
+  pageSize: oneOf(Object.values(PageSize)),
+  customWidth: between(OPTION_LIMITS.customSize),
+  customHeight: between(OPTION_LIMITS.customSize),
+  customUnit: oneOf(['mm', 'in']),
+  orientation: oneOf(Object.values(Orientation)),
+  margin: between(OPTION_LIMITS.margin),
+  columns: between(OPTION_LIMITS.columns, true),
+  columnGap: between(OPTION_LIMITS.columnGap),
+  nUp: oneOf([1, 2, 4]),
+  scaleMode: oneOf(Object.values(ScaleMode)),
+  maxScale: between(OPTION_LIMITS.maxScale),
+  scalePercent: between(OPTION_LIMITS.scalePercent),
+  align: oneOf(Object.values(HorizontalAlign)),
+  lastPage: oneOf(Object.values(LastPageMode)),
+  quality: between(OPTION_LIMITS.quality),
+  dpi: nullable(between(OPTION_LIMITS.dpi)),
+  encoding: oneOf(Object.values(PageEncoding)),
+  smartSplit: flag,
+  splitTolerance: between(OPTION_LIMITS.splitTolerance),
+  searchable: flag,
+  targetSizeMb: nullable(between(OPTION_LIMITS.targetSizeMb)),
+  headerTemplate: text,
+  footerTemplate: text,
+  watermark: {
+    type: oneOf(Object.values(WatermarkType)),
+    text,
+    imageDataUrl: nullable(text),
+    opacity: between(OPTION_LIMITS.watermarkOpacity)
+  },
+  pageLabels: {
+    style: oneOf(Object.values(PageLabelStyle)),
+    prefix: text,
+    start: between(OPTION_LIMITS.labelStart, true)
+  },
+  cleanup: {
+    cropTop: between(OPTION_LIMITS.crop),
+    cropBottom: between(OPTION_LIMITS.crop),
+    trimSides: flag,
+    removeRepeatedBars: flag
+  },
+  poster: {
+    enabled: flag,
+    widthMm: between(OPTION_LIMITS.posterWidth),
+    overlap: between(OPTION_LIMITS.posterOverlap),
+    marks: flag
+  },
+  print: {
+    layout: oneOf(Object.values(PrintLayout)),
+    gutter: between(OPTION_LIMITS.gutter),
+    mirrorMargins: flag
+  }
+};
+
+function checkOption(path: string, rule: OptionRule, value: unknown): unknown {
+  if (!rule.valid(value)) throw new Error(`选项 ${path} 的值 ${JSON.stringify(value)} 无效，应为${rule.expected}`);
+  return rule.clamp ? rule.clamp(value) : value;
+}
+
+function isGroup(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Fills options saved by an older version (or edited by hand) up to the
+ * current shape, nested groups included. Numbers out of range are clamped;
+ * a value of the wrong type or not among the choices throws, naming the option.
+ */
+export function withDefaultOptions(options: Partial<PdfOptions>): PdfOptions {
+  for (const key of ['watermark', 'pageLabels', 'cleanup', 'poster', 'print'] as const) {
+    if (options[key] !== undefined && !isGroup(options[key])) {
+      throw new Error(`选项 ${key} 的值 ${JSON.stringify(options[key])} 无效，应为对象`);
+    }
+  }
+  const merged: PdfOptions = {
+    ...DEFAULT_PDF_OPTIONS,
+    ...options,
+    watermark: { ...DEFAULT_PDF_OPTIONS.watermark, ...options.watermark },
+    pageLabels: { ...DEFAULT_PDF_OPTIONS.pageLabels, ...options.pageLabels },
+    cleanup: { ...DEFAULT_PDF_OPTIONS.cleanup, ...options.cleanup },
+    poster: { ...DEFAULT_PDF_OPTIONS.poster, ...options.poster },
+    print: { ...DEFAULT_PDF_OPTIONS.print, ...options.print }
+  };
+  const checked = merged as unknown as Record<string, unknown>;
+  for (const [key, rule] of Object.entries(OPTION_RULES)) {
+    if ('valid' in rule) {
+      checked[key] = checkOption(key, rule as OptionRule, checked[key]);
+      continue;
+    }
+    const group = checked[key] as Record<string, unknown>;
+    for (const [field, fieldRule] of Object.entries(rule as Record<string, OptionRule>)) {
+      group[field] = checkOption(`${key}.${field}`, fieldRule, group[field]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Presets found in stored or imported data. Imports are strict and reject the
+ * whole file on the first broken preset; presets already in localStorage are
+ * skipped one by one so a single bad entry does not hide the others.
+ */
+function toPresets(value: unknown, strict: boolean): PdfPreset[] {
+  if (!Array.isArray(value)) return [];
+  const presets: PdfPreset[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { name, options } = item as { name?: unknown; options?: unknown };
+    if (typeof name !== 'string' || !name.trim() || !isGroup(options)) continue;
+    try {
+      presets.push({ name: name.trim(), options: withDefaultOptions(options as Partial<PdfOptions>) });
+    } catch (err) {
+      if (strict) throw new Error(`预设“${name.trim()}”无法导入：${(err as Error).message}`);
+      console.warn(`Skipping invalid preset "${name}"`, err);
+    }
+  }
+  return presets;
+}
+
+export function loadPresets(): PdfPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? toPresets(JSON.parse(stored), false) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: PdfPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn("Could not persist presets", err);
+  }
+}
+
+/**
+ * Adds a preset, replacing one with the same name
+ */
+export function upsertPreset(presets: PdfPreset[], preset: PdfPreset): PdfPreset[] {
+  const index = presets.findIndex(item => item.name === preset.name);
+  if (index === -1) return [...presets, preset];
+  return presets.map((item, idx) => (idx === index ? preset : item));
+}
+
+export function exportPresets(presets: PdfPreset[]): Blob {
+  const file = { format: FILE_FORMAT, version: FILE_VERSION, presets };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Reads an exported presets file. A bare array of presets is accepted too.
+ * Throws with a readable message when the file or any preset in it is invalid.
+ */
+export function parsePresetFile(text: string): PdfPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("不是有效的 JSON 文件");
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && (data as { format?: unknown }).format === FILE_FORMAT
+      ? (data as { presets?: unknown }).presets
+      : null;
+  const presets = toPresets(list, true);
+  if (presets.length === 0) throw new Error("文件中没有可用的预设");
+  return presets;
+}
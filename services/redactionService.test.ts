@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyTextLayer } from './ocrService';
+import { detectPii, withoutRedactedWords } from './redactionService';
+import { ocrWord, processedPage } from './testFixtures';
+
+describe('detectPii', () => {
+  it('finds a phone number and boxes its word with padding', () => {
+    const [hit, ...rest] = detectPii([ocrWord('电话', 10), ocrWord('13812345678', 60)]);
+    expect(rest).toEqual([]);
+    expect(hit).toMatchObject({ label: '手机号', text: '13812345678' });
+    expect(hit.x).toBeLessThan(60);
+    expect(hit.x + hit.width).toBeGreaterThan(170);
+    expect(hit.y).toBeLessThan(100);
+    expect(hit.y + hit.height).toBeGreaterThan(120);
+  });
+
+  it('joins a number OCR split into several words into one box', () => {
+    const suggestions = detectPii([ocrWord('138', 0), ocrWord('1234', 40), ocrWord('5678', 90)]);
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].text).toBe('138 1234 5678');
+    expect(suggestions[0].x + suggestions[0].width).toBeGreaterThan(130);
+  });
+
+  it('reports each match once, the more specific pattern winning', () => {
+    const suggestions = detectPii([ocrWord('user@example.com', 0), ocrWord('110101199003071234', 0, 200)]);
+    expect(suggestions.map(item => item.label)).toEqual(['邮箱', '身份证号']);
+  });
+
+  it('recognises card numbers, IP addresses and tokens', () => {
+    const labels = detectPii([
+      ocrWord('6222', 0, 0), ocrWord('0212', 50, 0), ocrWord('3456', 100, 0), ocrWord('7890', 150, 0),
+      ocrWord('192.168.1.20', 0, 100),
+      ocrWord('ghp_a1B2c3D4e5F6g7H8i9J0k1L2', 0, 200)
+    ]).map(item => item.label);
+    expect(labels).toEqual(['银行卡号', 'IP 地址', '密钥/令牌']);
+  });
+
+  it('leaves ordinary text alone', () => {
+    expect(detectPii([ocrWord('会议', 0), ocrWord('下午', 50), ocrWord('3点', 100), ocrWord('开始', 150)])).toEqual([]);
+  });
+});
+
+describe('withoutRedactedWords', () => {
+  // OCR reads the unredacted source, so the filter is all that keeps boxed text out of the PDF
+  it('keeps words under a redaction out of the text layer', () => {
+    const words = [ocrWord('姓名', 10), ocrWord('张三', 60), ocrWord('13812345678', 10, 300)];
+    const redactions = [{ x: 55, y: 95, width: 30, height: 30 }, { x: 100, y: 310, width: 5, height: 5 }];
+    const wordsBySource = new Map([['s0', withoutRedactedWords(words, redactions)]]);
+
+    const [page] = applyTextLayer([processedPage()], wordsBySource);
+    expect(page.textLayer?.map(word => word.text)).toEqual(['姓名']);
+  });
+});
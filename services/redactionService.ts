@@ -0,0 +1,158 @@
+// Redaction boxes are filled whenever a source is drawn for slicing, so
+// smart-split scanning and every page only ever see the filled pixels. OCR
+// reads the original image; its words are filtered with withoutRedactedWords.
+import { OcrWord, Redaction, RedactionSuggestion, SourceImage } from '../types';
+import { loadImage } from './imageService';
+
+const REDACTION_FILL = '#000000';
+// Extra pixels around detected text so antialiased edges are covered too
+const DETECTION_PADDING = 3;
+// Longest side of the redacted copy sent to AI analysis
+const MAX_ANALYSIS_SIDE = 16000;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Fills the redactions that fall into a drawn source region.
+ * Arguments mirror drawImage: source rect (sx, sy, sw, sh) was drawn to (dx, dy, dw, dh).
+ */
+export function fillRedactions(
+  ctx: Context2D,
+  redactions: Redaction[],
+  sx: number, sy: number, sw: number, sh: number,
+  dx: number, dy: number, dw: number, dh: number
+) {
+  if (redactions.length === 0 || sw <= 0 || sh <= 0) return;
+  const scaleX = dw / sw;
+  const scaleY = dh / sh;
+
+  ctx.save();
+  ctx.fillStyle = REDACTION_FILL;
+  for (const r of redactions) {
+    const left = Math.max(r.x, sx);
+    const top = Math.max(r.y, sy);
+    const right = Math.min(r.x + r.width, sx + sw);
+    const bottom = Math.min(r.y + r.height, sy + sh);
+    if (right <= left || bottom <= top) continue;
+    // Round outwards so resampling never leaves a partly covered pixel row
+    const x0 = Math.floor(dx + (left - sx) * scaleX);
+    const y0 = Math.floor(dy + (top - sy) * scaleY);
+    const x1 = Math.ceil(dx + (right - sx) * scaleX);
+    const y1 = Math.ceil(dy + (bottom - sy) * scaleY);
+    ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+  }
+  ctx.restore();
+}
+
+export function intersects(a: Redaction, b: Redaction): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Drops recognised words under a redaction, so the searchable text layer
+ * cannot reveal what the fill hides
+ */
+export function withoutRedactedWords(words: OcrWord[], redactions: Redaction[]): OcrWord[] {
+  if (redactions.length === 0) return words;
+  return words.filter(word => !redactions.some(r => intersects(word, r)));
+}
+
+/**
+ * A copy of the source with its redactions burned in, for sending to AI
+ * analysis. Very tall sources are downscaled to stay within canvas limits.
+ */
+export async function redactedDataUrl(source: SourceImage): Promise<string> {
+  const redactions = source.redactions ?? [];
+  if (redactions.length === 0) return source.dataUrl;
+
+  const img = await loadImage(source.dataUrl);
+  const { width, height } = source.metadata;
+  const scale = Math.min(1, MAX_ANALYSIS_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  fillRedactions(ctx, redactions, 0, 0, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+// Patterns run over whole recognised lines; spaces and dashes OCR keeps inside numbers are allowed
+const PII_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: '邮箱', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { label: '手机号', pattern: /(?<!\d)(?:\+?86[\s-]?)?1[3-9]\d(?:[\s-]?\d){8}(?!\d)/g },
+  { label: '身份证号', pattern: /(?<!\d)\d{6}(?:\s?\d){11}\s?[\dXx](?![\dXx])/g },
+  { label: '银行卡号', pattern: /(?<!\d)\d{4}(?:[\s-]?\d{4}){2,3}(?:[\s-]?\d{1,3})?(?!\d)/g },
+  { label: '电话', pattern: /(?<!\d)0\d{2,3}[\s-]?\d{7,8}(?!\d)/g },
+  { label: 'IP 地址', pattern: /(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?![\d.])/g },
+  { label: '密钥/令牌', pattern: /(?<![\w-])(?=[\w-]*\d)(?=[\w-]*[A-Za-z])[\w-]{24,}(?![\w-])/g }
+];
+
+/**
+ * Groups words into text lines (by vertical overlap), left to right
+ */
+function groupLines(words: OcrWord[]): OcrWord[][] {
+  const lines: OcrWord[][] = [];
+  const sorted = [...words].sort((a, b) => a.y + a.height / 2 - (b.y + b.height / 2));
+  for (const word of sorted) {
+    const centre = word.y + word.height / 2;
+    const line = lines[lines.length - 1];
+    const ref = line?.[0];
+    if (ref && Math.abs(ref.y + ref.height / 2 - centre) < Math.max(ref.height, word.height) / 2) {
+      line.push(word);
+    } else {
+      lines.push([word]);
+    }
+  }
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Suggests redactions for personal data found in OCR output: e-mail
+ * addresses, phone, ID and card numbers, IP addresses and access tokens.
+ * Names cannot be told apart reliably and are left to manual boxes.
+ */
+export function detectPii(words: OcrWord[]): RedactionSuggestion[] {
+  const suggestions: RedactionSuggestion[] = [];
+
+  for (const line of groupLines(words)) {
+    // Join the line, remembering where each word sits in the string
+    let text = '';
+    const spans = line.map(word => {
+      if (text) text += ' ';
+      const start = text.length;
+      text += word.text;
+      return { word, start, end: text.length };
+    });
+
+    const claimed: [number, number][] = [];
+    for (const { label, pattern } of PII_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        // Earlier, more specific patterns win (a phone number is not also a card number)
+        if (claimed.some(([s, e]) => start < e && s < end)) continue;
+        claimed.push([start, end]);
+
+        const hit = spans.filter(span => span.start < end && start < span.end).map(span => span.word);
+        if (hit.length === 0) continue;
+        const x = Math.min(...hit.map(w => w.x)) - DETECTION_PADDING;
+        const y = Math.min(...hit.map(w => w.y)) - DETECTION_PADDING;
+        const right = Math.max(...hit.map(w => w.x + w.width)) + DETECTION_PADDING;
+        const bottom = Math.max(...hit.map(w => w.y + w.height)) + DETECTION_PADDING;
+        suggestions.push({
+          label,
+          text: match[0],
+          x: Math.max(0, Math.floor(x)),
+          y: Math.max(0, Math.floor(y)),
+          width: Math.ceil(right - Math.max(0, x)),
+          height: Math.ceil(bottom - Math.max(0, y))
+        });
+      }
+    }
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DECODE_BAND_ROWS, RenderContext, browserBackend } from './renderBackend';
+
+// Image height the stubbed browser refuses to decode in one bitmap
+const HEIGHT_LIMIT = 16384;
+
+interface FakeBitmap {
+  top: number;
+  width: number;
+  height: number;
+  closed: boolean;
+  close: () => void;
+}
+
+// createImageBitmap for a 1080 px wide image of the given height, failing like a browser beyond its limit
+function stubDecoder(imageHeight: number) {
+  const bitmaps: FakeBitmap[] = [];
+  vi.stubGlobal('createImageBitmap', async (_blob: Blob, sx = 0, sy = 0, sw = 1080, sh = imageHeight) => {
+    if (sx !== 0 || sw !== 1080) throw new Error('bands must span the full width');
+    if (sh > HEIGHT_LIMIT) throw new DOMException('The source image could not be decoded.', 'InvalidStateError');
+    const bitmap: FakeBitmap = { top: sy, width: sw, height: sh, closed: false, close: () => { bitmap.closed = true; } };
+    bitmaps.push(bitmap);
+    return bitmap;
+  });
+  return bitmaps;
+}
+
+// Records each drawImage call as [bitmap top, first row in it, rows, destination y, destination height]
+function recordingContext() {
+  const draws: [number, number, number, number, number][] = [];
+  const ctx = {
+    drawImage: (bitmap: FakeBitmap, _sx: number, sy: number, _sw: number, sh: number, _dx: number, dy: number, _dw: number, dh: number) => {
+      draws.push([bitmap.top, sy, sh, dy, dh]);
+    }
+  } as unknown as RenderContext;
+  return { ctx, draws };
+}
+
+describe('browserBackend.decode', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('decodes a source taller than the bitmap limit in bands', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bitmaps = stubDecoder(40000);
+    const image = await browserBackend.decode('data:image/png;base64,QUJD', 1080);
+    const { ctx, draws } = recordingContext();
+
+    // A page straddling two bands, drawn at half scale
+    const top = DECODE_BAND_ROWS * 3 - 100;
+    await image.draw(ctx, 0, top, 1080, 300, 0, 0, 540, 150);
+    expect(draws).toEqual([
+      [DECODE_BAND_ROWS * 2, DECODE_BAND_ROWS - 100, 100, 0, 50],
+      [DECODE_BAND_ROWS * 3, 0, 200, 50, 100]
+    ]);
+    expect(bitmaps.every(bitmap => bitmap.height === DECODE_BAND_ROWS)).toBe(true);
+    // Only the band in use stays open
+    expect(bitmaps.filter(bitmap => !bitmap.closed).map(bitmap => bitmap.top)).toEqual([DECODE_BAND_ROWS * 3]);
+
+    image.close();
+    expect(bitmaps.every(bitmap => bitmap.closed)).toBe(true);
+  });
+
+  it('decodes sources within the limit in one piece', async () => {
+    const bitmaps = stubDecoder(2000);
+    const image = await browserBackend.decode('data:image/png;base64,QUJD', 1080);
+    const { ctx, draws } = recordingContext();
+    await image.draw(ctx, 0, 500, 1080, 1000, 0, 0, 1080, 1000);
+    expect(bitmaps).toHaveLength(1);
+    expect(draws).toEqual([[0, 500, 1000, 0, 1000]]);
+  });
+});
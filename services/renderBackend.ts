@@ -0,0 +1,136 @@
+// Canvas and image codec the page renderer draws with. The default uses
+// ImageBitmap/OffscreenCanvas (page and worker); Node installs one backed by
+// @napi-rs/canvas (see lib/node.ts), so slicing has no DOM dependency.
+
+// Node canvases implement the same 2D API, so the DOM type describes both
+export type RenderContext = OffscreenCanvasRenderingContext2D;
+
+export interface RenderSurface {
+  width: number;
+  height: number;
+  ctx: RenderContext;
+}
+
+export interface DecodedImage {
+  draw: (
+    ctx: RenderContext,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ) => Promise<void>;
+  close: () => void;
+}
+
+export interface RenderBackend {
+  createSurface: (width: number, height: number, willReadFrequently?: boolean) => RenderSurface;
+  // `width` is the image's pixel width, for backends that decode in bands
+  decode: (dataUrl: string, width: number) => Promise<DecodedImage>;
+  // Returns a data URL; quality only applies to JPEG
+  encode: (surface: RenderSurface, type: 'image/png' | 'image/jpeg', quality?: number) => Promise<string>;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The OffscreenCanvas behind each surface created by the browser backend
+const browserCanvases = new WeakMap<RenderSurface, OffscreenCanvas>();
+
+// Rows per bitmap when a source is too large to decode in one piece
+export const DECODE_BAND_ROWS = 4096;
+
+/**
+ * Decodes a source as full-width horizontal bands, one at a time, so no
+ * bitmap exceeds the browser's size limits. Renderers read sources top to
+ * bottom, so only the current band is kept.
+ */
+async function decodeBands(blob: Blob, width: number): Promise<DecodedImage> {
+  let band: { top: number; bitmap: ImageBitmap } | null = null;
+  const bandAt = async (top: number) => {
+    if (band?.top !== top) {
+      band?.bitmap.close();
+      band = null;
+      band = { top, bitmap: await createImageBitmap(blob, 0, top, width, DECODE_BAND_ROWS) };
+    }
+    return band.bitmap;
+  };
+
+  // Fail now rather than on the first page if even a band cannot be decoded
+  await bandAt(0);
+  return {
+    draw: async (ctx, sx, sy, sw, sh, dx, dy, dw, dh) => {
+      const scaleY = dh / sh;
+      for (let top = Math.floor(sy / DECODE_BAND_ROWS) * DECODE_BAND_ROWS; top < sy + sh; top += DECODE_BAND_ROWS) {
+        const from = Math.max(sy, top);
+        const to = Math.min(sy + sh, top + DECODE_BAND_ROWS);
+        const bitmap = await bandAt(top);
+        ctx.drawImage(bitmap, sx, from - top, sw, to - from, dx, dy + (from - sy) * scaleY, dw, (to - from) * scaleY);
+      }
+    },
+    close: () => {
+      band?.bitmap.close();
+      band = null;
+    }
+  };
+}
+
+export const browserBackend: RenderBackend = {
+  createSurface(width, height, willReadFrequently = false) {
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    const ctx = canvas.getContext('2d', { willReadFrequently });
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+    const surface = { width: canvas.width, height: canvas.height, ctx };
+    browserCanvases.set(surface, canvas);
+    return surface;
+  },
+
+  /**
+   * Decodes a source once into an ImageBitmap. When the browser refuses a
+   * bitmap that large (taller than its size limit), falls back to decoding
+   * it in bands with createImageBitmap's crop rectangle.
+   */
+  async decode(dataUrl, width) {
+    const blob = await (await fetch(dataUrl)).blob();
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(blob);
+    } catch (err) {
+      console.warn('Full decode failed, decoding in bands', err);
+      try {
+        return await decodeBands(blob, width);
+      } catch (bandErr) {
+        console.error('Image decode failed', bandErr);
+        throw new Error('图片无法解码：文件可能已损坏，或超出了浏览器能处理的大小');
+      }
+    }
+    return {
+      draw: async (ctx, sx, sy, sw, sh, dx, dy, dw, dh) => {
+        ctx.drawImage(bitmap, sx, sy, sw, sh, dx, dy, dw, dh);
+      },
+      close: () => bitmap.close()
+    };
+  },
+
+  async encode(surface, type, quality) {
+    const canvas = browserCanvases.get(surface);
+    if (!canvas) throw new Error('Surface was not created by the browser backend');
+    return blobToDataUrl(await canvas.convertToBlob({ type, quality }));
+  }
+};
+
+let backend: RenderBackend = browserBackend;
+
+export function getRenderBackend(): RenderBackend {
+  return backend;
+}
+
+/**
+ * Replaces the backend for everything rendered on this thread afterwards
+ */
+export function setRenderBackend(next: RenderBackend) {
+  backend = next;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { findSeam } from './seamFinder';
+import { contentRows, sourceSample } from './testFixtures';
+
+describe('findSeam', () => {
+  const statusBar = contentRows(20, 7);
+  const page = contentRows(600, 42);
+
+  it('finds the scroll offset between overlapping captures and keeps the fixed bar once', () => {
+    // Both captures show the status bar, then 380 rows of the page scrolled by 200
+    const upper = [...statusBar, ...page.slice(0, 380)];
+    const lower = [...statusBar, ...page.slice(200, 580)];
+    expect(findSeam(sourceSample(upper), upper.length, sourceSample(lower), lower.length)).toEqual({
+      upperEnd: 400,
+      lowerStart: 200,
+      detected: true
+    });
+  });
+
+  it('drops the bottom bar of the upper capture', () => {
+    const tabBar = contentRows(30, 99);
+    const upper = [...page.slice(0, 300), ...tabBar];
+    const lower = [...page.slice(120, 420), ...tabBar];
+    expect(findSeam(sourceSample(upper), upper.length, sourceSample(lower), lower.length)).toEqual({
+      upperEnd: 300,
+      lowerStart: 180,
+      detected: true
+    });
+  });
+
+  it('reports captures without overlap as undetected', () => {
+    const upper = [...statusBar, ...page.slice(0, 280)];
+    const lower = [...statusBar, ...contentRows(280, 1234)];
+    expect(findSeam(sourceSample(upper), upper.length, sourceSample(lower), lower.length)).toEqual({
+      upperEnd: 300,
+      lowerStart: 20,
+      detected: false
+    });
+  });
+});
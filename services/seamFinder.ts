@@ -0,0 +1,102 @@
+// Matching of overlapping scroll screenshots by row signatures. Kept apart
+// from stitchService so the PDF worker can run detection without pulling in
+// the main-thread side of stitching.
+import { SourceImage, StitchSeam } from '../types';
+import { ROW_SIGNATURE_COLUMNS, SourceSample, hasTexture } from './cleanupService';
+import { sampleImage } from './pageRenderer';
+
+// Mean grey difference up to which two rows of different captures count as the same
+const ROW_TOLERANCE = 4;
+// Rows of the lower capture that are looked up in the upper one
+const ANCHOR_ROWS = 32;
+// Largest part of a capture that can be a fixed bar at its top or bottom
+const MAX_FIXED_RATIO = 0.4;
+
+function rowDifference(a: Uint8Array, aRow: number, b: Uint8Array, bRow: number): number {
+  const cols = ROW_SIGNATURE_COLUMNS;
+  let diff = 0;
+  for (let i = 0; i < cols; i++) {
+    diff += Math.abs(a[aRow * cols + i] - b[bRow * cols + i]);
+  }
+  return diff / cols;
+}
+
+/**
+ * Finds where the lower capture continues the upper one. Rows that are the
+ * same at the same position in both are fixed bars; the scrolling part in
+ * between is matched by looking up a textured band of the lower capture in
+ * the upper one, and the candidate whose whole overlap agrees best wins.
+ * The seam drops the upper capture's bottom bar and everything of the lower
+ * capture the upper one already shows.
+ */
+export function findSeam(
+  upper: SourceSample,
+  upperHeight: number,
+  lower: SourceSample,
+  lowerHeight: number
+): StitchSeam {
+  const a = upper.signatures;
+  const b = lower.signatures;
+  const maxFixed = Math.floor(Math.min(upperHeight, lowerHeight) * MAX_FIXED_RATIO);
+
+  let top = 0;
+  while (top < maxFixed && rowDifference(a, top, b, top) <= ROW_TOLERANCE) top++;
+  let bottom = 0;
+  while (bottom < maxFixed && rowDifference(a, upperHeight - 1 - bottom, b, lowerHeight - 1 - bottom) <= ROW_TOLERANCE) {
+    bottom++;
+  }
+  const upperEnd = upperHeight - bottom;
+  const lowerEnd = lowerHeight - bottom;
+  const unmatched = { upperEnd, lowerStart: Math.min(top, lowerEnd - 1), detected: false };
+
+  // Plain background matches everywhere, so the anchor needs some content
+  let anchor = top;
+  while (anchor + ANCHOR_ROWS <= lowerEnd && !hasTexture(b, anchor, anchor + ANCHOR_ROWS)) anchor++;
+  if (anchor + ANCHOR_ROWS > lowerEnd) return unmatched;
+
+  let bestShift = 0;
+  let bestScore = Infinity;
+  // Lower row r shows what upper row r + shift shows
+  for (let shift = 1; anchor + shift + ANCHOR_ROWS <= upperEnd; shift++) {
+    let anchorDiff = 0;
+    for (let i = 0; i < ANCHOR_ROWS && anchorDiff <= ROW_TOLERANCE * ANCHOR_ROWS; i++) {
+      anchorDiff += rowDifference(a, anchor + shift + i, b, anchor + i);
+    }
+    if (anchorDiff > ROW_TOLERANCE * ANCHOR_ROWS) continue;
+
+    const end = Math.min(lowerEnd, upperEnd - shift);
+    let diff = 0;
+    for (let row = top; row < end; row++) diff += rowDifference(a, row + shift, b, row);
+    const score = diff / (end - top);
+    // Ties go to the smaller shift: captures usually overlap more than they repeat
+    if (score < bestScore) {
+      bestScore = score;
+      bestShift = shift;
+    }
+  }
+  if (bestScore > ROW_TOLERANCE) return unmatched;
+
+  return { upperEnd, lowerStart: upperEnd - bestShift, detected: true };
+}
+
+/**
+ * Detects the seam between each pair of consecutive captures, top to bottom,
+ * on the current thread
+ */
+export async function planSeams(captures: SourceImage[]): Promise<StitchSeam[]> {
+  if (captures.length < 2) return [];
+  const { width } = captures[0].metadata;
+  if (captures.some(capture => capture.metadata.width !== width)) {
+    throw new Error('截图宽度不一致，无法拼接');
+  }
+
+  const seams: StitchSeam[] = [];
+  let upper = await sampleImage(captures[0].dataUrl, width, captures[0].metadata.height);
+  for (let i = 1; i < captures.length; i++) {
+    const { height } = captures[i].metadata;
+    const lower = await sampleImage(captures[i].dataUrl, width, height);
+    seams.push(findSeam(upper, captures[i - 1].metadata.height, lower, height));
+    upper = lower;
+  }
+  return seams;
+}
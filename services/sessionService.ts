@@ -0,0 +1,71 @@
+// Autosave of the current session to IndexedDB, so sources, breaks and
+// settings survive a reload or a crashed tab
+import { SavedSession } from '../types';
+import { withDefaultOptions } from './presetService';
+
+const DB_NAME = 'longimg2pdf';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+// Only the latest session is kept
+const SESSION_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // Allow a later retry instead of caching the failure
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveSession(session: SavedSession): Promise<void> {
+  await withStore<IDBValidKey>('readwrite', store => store.put(session, SESSION_KEY));
+}
+
+/**
+ * The last autosaved session, or null when there is none (or storage is
+ * unavailable, e.g. in private browsing)
+ */
+export async function loadSession(): Promise<SavedSession | null> {
+  try {
+    const session = await withStore<SavedSession | undefined>('readonly', store => store.get(SESSION_KEY));
+    if (!session || !Array.isArray(session.sources) || session.sources.length === 0) return null;
+    return { ...session, options: withDefaultOptions(session.options ?? {}) };
+  } catch (err) {
+    console.warn("Could not read saved session", err);
+    return null;
+  }
+}
+
+export async function clearSession(): Promise<void> {
+  try {
+    await withStore<undefined>('readwrite', store => store.delete(SESSION_KEY));
+  } catch (err) {
+    console.warn("Could not clear saved session", err);
+  }
+}
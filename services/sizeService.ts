@@ -0,0 +1,119 @@
+import { PageEncoding, PdfOptions, ProcessedPage, SourceImage } from '../types';
+import { PdfContext, generatePdfPages, createPdfBlob, estimatePdfSize } from './pdfService';
+
+// Resolution steps tried in order, as a share of the normal output width
+const SCALE_STEPS = [1, 0.85, 0.7, 0.55, 0.4];
+const MAX_QUALITY = 0.92;
+const MIN_QUALITY = 0.3;
+// Binary-search iterations over JPEG quality per scale/encoding
+const QUALITY_ITERATIONS = 4;
+
+export interface SizeFitResult {
+  pages: ProcessedPage[];
+  estimatedBytes: number;
+  quality: number;
+  scale: number;
+  encoding: PageEncoding;
+  fits: boolean; // false when even the smallest settings exceed the target
+}
+
+export interface SizeFitStep {
+  quality: number;
+  scale: number;
+  encoding: PageEncoding;
+}
+
+interface FitOptions {
+  context?: PdfContext; // document info of the downloaded PDF
+  prepare?: (pages: ProcessedPage[]) => Promise<ProcessedPage[]>; // e.g. adds the OCR text layer
+  signal?: AbortSignal;
+  onStep?: (step: SizeFitStep) => void;
+}
+
+/**
+ * Encodings worth trying for a requested one, best-looking first.
+ * Lossless choices fall back to JPEG and then greyscale JPEG.
+ */
+function encodingLadder(requested: PageEncoding): PageEncoding[] {
+  const ladder = [requested, PageEncoding.Jpeg, PageEncoding.Grayscale];
+  return ladder.filter((encoding, idx) => ladder.indexOf(encoding) === idx);
+}
+
+function isLossy(encoding: PageEncoding) {
+  return encoding === PageEncoding.Jpeg || encoding === PageEncoding.Grayscale;
+}
+
+/**
+ * Searches output resolution, encoding and JPEG quality for the best-looking
+ * settings whose PDF fits into `targetBytes`. Candidates are compared by
+ * estimated size; the winner is verified by building the real PDF with the
+ * download's context and text layer, so headers, watermarks and fonts count.
+ */
+export async function fitToTargetSize(
+  sources: SourceImage[],
+  options: PdfOptions,
+  targetBytes: number,
+  { context, prepare, signal, onStep }: FitOptions = {}
+): Promise<SizeFitResult> {
+  const render = async (scale: number, encoding: PageEncoding, quality: number) => {
+    onStep?.({ scale, encoding, quality });
+    const attemptOptions = { ...options, encoding, quality };
+    const pages: ProcessedPage[] = [];
+    for (const source of sources) {
+      pages.push(...await generatePdfPages(source, attemptOptions, source.breaks, { signal, outputScale: scale }));
+    }
+    const result: SizeFitResult = { pages, estimatedBytes: estimatePdfSize(pages), quality, scale, encoding, fits: false };
+    return result;
+  };
+
+  const verify = async (result: SizeFitResult) => {
+    const output = prepare ? await prepare(result.pages) : result.pages;
+    const blob = await createPdfBlob(output, { ...options, encoding: result.encoding, quality: result.quality }, context);
+    result.fits = blob.size <= targetBytes;
+    return result;
+  };
+
+  let smallest: SizeFitResult | null = null;
+
+  for (const scale of SCALE_STEPS) {
+    for (const encoding of encodingLadder(options.encoding)) {
+      if (!isLossy(encoding)) {
+        const attempt = await render(scale, encoding, options.quality);
+        if (attempt.estimatedBytes <= targetBytes && (await verify(attempt)).fits) return attempt;
+        if (!smallest || attempt.estimatedBytes < smallest.estimatedBytes) smallest = attempt;
+        continue;
+      }
+
+      // Highest quality that still fits at this scale
+      let low = MIN_QUALITY;
+      let high = Math.min(MAX_QUALITY, options.quality);
+      let best: SizeFitResult | null = null;
+
+      const top = await render(scale, encoding, high);
+      if (top.estimatedBytes <= targetBytes) {
+        best = top;
+      } else {
+        const bottom = await render(scale, encoding, low);
+        if (!smallest || bottom.estimatedBytes < smallest.estimatedBytes) smallest = bottom;
+        if (bottom.estimatedBytes <= targetBytes) {
+          best = bottom;
+          for (let i = 0; i < QUALITY_ITERATIONS; i++) {
+            const mid = Math.round(((low + high) / 2) * 100) / 100;
+            const attempt = await render(scale, encoding, mid);
+            if (attempt.estimatedBytes <= targetBytes) {
+              best = attempt;
+              low = mid;
+            } else {
+              high = mid;
+            }
+          }
+        }
+      }
+
+      if (best && (await verify(best)).fits) return best;
+    }
+  }
+
+  // Nothing fits: hand back the smallest output we produced
+  return smallest ?? render(SCALE_STEPS[SCALE_STEPS.length - 1], PageEncoding.Grayscale, MIN_QUALITY);
+}
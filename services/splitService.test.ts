@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findSafeCutOffset, planFromCandidates } from './splitService';
+import { inkFilled, inkRows } from './testFixtures';
+
+describe('findSafeCutOffset', () => {
+  it('cuts in the middle of the lowest whitespace band', () => {
+    const ink = inkFilled(40, 0.2);
+    ink.fill(0, 5, 9); // rows 5-8
+    ink.fill(0, 20, 30); // rows 20-29
+    expect(findSafeCutOffset(ink)).toBe(25);
+  });
+
+  it('treats gaps shorter than three rows as quiet rows, not as whitespace bands', () => {
+    const ink = inkFilled(20, 0.2);
+    ink.fill(0, 10, 12);
+    ink.fill(0, 2, 5);
+    expect(findSafeCutOffset(ink)).toBe(3);
+    ink.fill(0.2, 2, 5);
+    expect(findSafeCutOffset(ink)).toBe(11);
+  });
+
+  it('moves to the quietest row only when it is clearly quieter than the nominal cut', () => {
+    expect(findSafeCutOffset(inkRows(0.3, 0.08, 0.3, 0.2))).toBe(1);
+    expect(findSafeCutOffset(inkRows(0.3, 0.12, 0.3, 0.2))).toBe(3);
+  });
+
+  it('keeps the nominal cut when every row is the same', () => {
+    expect(findSafeCutOffset(inkFilled(16, 0.1))).toBe(15);
+  });
+});
+
+describe('planFromCandidates', () => {
+  it('ends every page at the lowest candidate that still fits on it', () => {
+    expect(planFromCandidates([300, 900, 1500], 2000, 1000)).toEqual([900, 1500]);
+  });
+
+  it('leaves stretches without a candidate to the automatic splitter', () => {
+    expect(planFromCandidates([1500], 3000, 1000)).toEqual([1500]);
+  });
+
+  it('drops duplicates and rows outside the image', () => {
+    expect(planFromCandidates([-5, 0, 800, 800, 400, 2000, 2500], 2000, 1000)).toEqual([800]);
+  });
+
+  it('needs no breaks when the image fits on one page', () => {
+    expect(planFromCandidates([200, 400], 900, 1000)).toEqual([]);
+  });
+
+  it('returns no breaks for pages shorter than a pixel', () => {
+    expect(planFromCandidates([10, 20], 100, 0)).toEqual([]);
+    expect(planFromCandidates([10, 20], 100, NaN)).toEqual([]);
+  });
+});
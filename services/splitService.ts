@@ -0,0 +1,110 @@
+// Content-aware break detection.
+// Everything in here works on raw RGBA rows so it can be reused by any
+// renderer that is able to hand us pixel data.
+
+// A pixel counts as "ink" when its luminance differs this much from the row background
+const INK_LUMA_DELTA = 28;
+// Rows whose ink ratio stays below this are treated as whitespace
+const BLANK_ROW_INK = 0.004;
+// Shortest whitespace band (in rows) we trust as a real gap between lines
+const MIN_BLANK_RUN = 3;
+
+/**
+ * Measures how much "ink" each row contains: the fraction of pixels whose
+ * luminance departs from the row's dominant (background) luminance.
+ * Uniform rows score 0 regardless of their colour, so coloured chat
+ * backgrounds and dark themes are handled the same as white paper.
+ */
+export function measureRowInk(data: Uint8ClampedArray, width: number, rows: number): Float32Array {
+  const ink = new Float32Array(rows);
+  const histogram = new Uint32Array(32);
+  const luma = new Uint8Array(width);
+
+  for (let row = 0; row < rows; row++) {
+    histogram.fill(0);
+    const offset = row * width * 4;
+    for (let x = 0; x < width; x++) {
+      const i = offset + x * 4;
+      const l = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+      luma[x] = l;
+      histogram[l >> 3]++;
+    }
+
+    // Dominant luminance bucket is the background for this row
+    let modeBucket = 0;
+    for (let b = 1; b < histogram.length; b++) {
+      if (histogram[b] > histogram[modeBucket]) modeBucket = b;
+    }
+    const background = modeBucket * 8 + 4;
+
+    let inked = 0;
+    for (let x = 0; x < width; x++) {
+      if (Math.abs(luma[x] - background) > INK_LUMA_DELTA) inked++;
+    }
+    ink[row] = inked / width;
+  }
+
+  return ink;
+}
+
+/**
+ * Picks the best row to cut at inside a scanned window.
+ * `ink` covers the window rows, the last entry being the nominal cut.
+ * Returns an offset into the window.
+ *
+ * Preference order:
+ *  1. the lowest whitespace band (keeps pages as full as possible), cut in its middle
+ *  2. the quietest row in the window
+ *  3. the nominal cut itself
+ */
+export function findSafeCutOffset(ink: Float32Array): number {
+  const last = ink.length - 1;
+  if (last <= 0) return last;
+
+  let runEnd = -1;
+  for (let row = last; row >= 0; row--) {
+    const blank = ink[row] <= BLANK_ROW_INK;
+    if (blank && runEnd === -1) runEnd = row;
+    if ((!blank || row === 0) && runEnd !== -1) {
+      const runStart = blank ? row : row + 1;
+      if (runEnd - runStart + 1 >= MIN_BLANK_RUN) {
+        return Math.floor((runStart + runEnd + 1) / 2);
+      }
+      runEnd = -1;
+    }
+  }
+
+  let quietest = last;
+  for (let row = last - 1; row >= 0; row--) {
+    if (ink[row] < ink[quietest]) quietest = row;
+  }
+  // Only move the cut if the quiet row is clearly better than slicing at the nominal position
+  return ink[quietest] < ink[last] * 0.5 ? quietest : last;
+}
+
+/**
+ * Turns candidate cut rows (e.g. suggested by the AI analysis) into page
+ * breaks: every page ends at the lowest candidate that still fits on it.
+ * Stretches without a usable candidate are left to the automatic splitter.
+ */
+export function planFromCandidates(candidates: number[], height: number, segmentHeightPx: number): number[] {
+  const sorted = [...new Set(candidates)]
+    .filter(y => y > 0 && y < height)
+    .sort((a, b) => a - b);
+
+  const breaks: number[] = [];
+  // Pages shorter than a pixel would never advance; the renderer rejects them
+  if (!(segmentHeightPx >= 1)) return breaks;
+  let cursor = 0;
+  while (height - cursor > segmentHeightPx) {
+    const limit = cursor + segmentHeightPx;
+    const fitting = sorted.filter(y => y > cursor && y <= limit);
+    if (fitting.length === 0) {
+      cursor = limit;
+      continue;
+    }
+    cursor = fitting[fitting.length - 1];
+    breaks.push(cursor);
+  }
+  return breaks;
+}
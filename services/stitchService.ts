@@ -0,0 +1,78 @@
+// Stitching of overlapping scroll screenshots into one long image: the
+// overlap between consecutive captures is found by matching row signatures,
+// and fixed bars (status bar, sticky header, tab bar) are kept only once.
+import { KeepRegion, SourceImage, StitchSeam } from '../types';
+import { planSeams } from './seamFinder';
+import { WorkerRunOptions, getPdfWorker, runInWorker } from './workerClient';
+import { fillRedactions } from './redactionService';
+import { getRenderBackend } from './renderBackend';
+import { baseName } from './imageService';
+
+export { findSeam } from './seamFinder';
+
+// Tallest image browsers reliably create a canvas for
+export const MAX_STITCH_HEIGHT = 32767;
+
+/**
+ * Detects the seam between each pair of consecutive captures, top to bottom.
+ * Decoding and matching run in the PDF worker when the browser has one.
+ */
+export async function detectSeams(captures: SourceImage[], { signal }: WorkerRunOptions = {}): Promise<StitchSeam[]> {
+  const worker = getPdfWorker();
+  if (worker) return runInWorker(worker, 'seams', captures, { signal });
+  return planSeams(captures);
+}
+
+/**
+ * Rows of each capture that make up the stitched image. A capture the seams
+ * leave nothing of gets an empty range.
+ */
+export function stitchedRanges(captures: SourceImage[], seams: StitchSeam[]): KeepRegion[] {
+  return captures.map((capture, idx) => {
+    const start = idx > 0 ? seams[idx - 1].lowerStart : 0;
+    const end = idx < seams.length ? seams[idx].upperEnd : capture.metadata.height;
+    return { start, end: Math.max(start, end) };
+  });
+}
+
+/**
+ * Draws the kept rows of every capture below each other into one PNG
+ * source. Redactions on the captures are burned in.
+ */
+export async function stitchCaptures(captures: SourceImage[], seams: StitchSeam[]): Promise<SourceImage> {
+  const ranges = stitchedRanges(captures, seams);
+  const { width } = captures[0].metadata;
+  const height = ranges.reduce((sum, range) => sum + range.end - range.start, 0);
+  if (height > MAX_STITCH_HEIGHT) {
+    throw new Error(`拼接结果过长（${height}px，最多 ${MAX_STITCH_HEIGHT}px），请分组拼接`);
+  }
+
+  const backend = getRenderBackend();
+  const surface = backend.createSurface(width, height);
+  let y = 0;
+  for (const [idx, capture] of captures.entries()) {
+    const { start, end } = ranges[idx];
+    if (end <= start) continue;
+    const image = await backend.decode(capture.dataUrl, capture.metadata.width);
+    try {
+      await image.draw(surface.ctx, 0, start, width, end - start, 0, y, width, end - start);
+    } finally {
+      image.close();
+    }
+    fillRedactions(surface.ctx, capture.redactions ?? [], 0, start, width, end - start, 0, y, width, end - start);
+    y += end - start;
+  }
+
+  const dataUrl = await backend.encode(surface, 'image/png');
+  return {
+    id: crypto.randomUUID(),
+    dataUrl,
+    metadata: {
+      name: `${baseName(captures[0].metadata.name)} 拼接.png`,
+      width,
+      height,
+      type: 'image/png',
+      size: Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4)
+    }
+  };
+}
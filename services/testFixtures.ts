@@ -0,0 +1,76 @@
+/**
+ * Shared fixtures for the service tests, so each test file builds its
+ * inputs and mocks the same way
+ */
+import { GenerateContentParameters } from '@google/genai';
+import { AiProvider, AiSettings, OcrWord, PdfOptions, ProcessedPage } from '../types';
+import { ROW_SIGNATURE_COLUMNS, SourceSample } from './cleanupService';
+import { GenAiClient } from './geminiService';
+import { DEFAULT_PDF_OPTIONS } from './presetService';
+
+export const pdfOptions = (patch: Partial<PdfOptions> = {}): PdfOptions => ({ ...DEFAULT_PDF_OPTIONS, ...patch });
+
+export const aiSettings = (patch: Partial<AiSettings> = {}): AiSettings => ({
+  provider: AiProvider.Disabled,
+  geminiApiKey: '',
+  geminiModel: 'gemini-test',
+  endpoint: 'http://localhost:11434/v1',
+  model: 'qwen2.5vl',
+  apiKey: '',
+  consentedTo: null,
+  ...patch
+});
+
+/** A page showing a whole 950 x 1385 px source, the size of an A4 page at the default margin */
+export const processedPage = (patch: Partial<ProcessedPage> = {}): ProcessedPage => ({
+  sourceId: 's0',
+  sourceY: 0,
+  sourceHeight: 1385,
+  sourceX: 0,
+  dataUrl: '',
+  format: 'JPEG',
+  pixelScale: 1,
+  contentHeight: 1385,
+  width: 950,
+  height: 1385,
+  ...patch
+});
+
+/** An OCR word roughly as wide as its text, 20 px tall */
+export const ocrWord = (text: string, x: number, y = 100, width = text.length * 10, height = 20): OcrWord =>
+  ({ text, x, y, width, height });
+
+/** Deterministic, textured row signatures: every row of "content" looks different */
+export function contentRows(count: number, seed: number): Uint8Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state % 256;
+  };
+  return Array.from({ length: count }, () => Uint8Array.from({ length: ROW_SIGNATURE_COLUMNS }, next));
+}
+
+/** A source sample made of the given row signatures */
+export function sourceSample(rows: Uint8Array[]): SourceSample {
+  const signatures = new Uint8Array(rows.length * ROW_SIGNATURE_COLUMNS);
+  rows.forEach((row, idx) => signatures.set(row, idx * ROW_SIGNATURE_COLUMNS));
+  return { signatures, columnMin: new Uint8Array(0), columnMax: new Uint8Array(0) };
+}
+
+/** A Gemini client that answers every request with `text` and records what it was sent */
+export function mockGenAiClient(text: string | undefined) {
+  const calls: GenerateContentParameters[] = [];
+  const client: GenAiClient = {
+    models: {
+      generateContent: async (params) => {
+        calls.push(params);
+        return { text };
+      }
+    }
+  };
+  return { client, calls };
+}
+
+/** Ink per row: 0 is blank, anything above ~0.004 counts as text */
+export const inkRows = (...values: number[]) => Float32Array.from(values);
+export const inkFilled = (length: number, value: number) => new Float32Array(length).fill(value);
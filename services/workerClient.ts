@@ -0,0 +1,74 @@
+// Main-thread side of the PDF worker: starts it on first use and runs tasks
+// in it with progress and cancellation. Returns no worker where the browser
+// cannot render there (no OffscreenCanvas) and in Node, so callers fall back
+// to running the same code on their own thread.
+import type { WorkerRequest, WorkerResponse, WorkerTask, WorkerTasks } from './pdfWorker';
+
+export interface WorkerRunOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+
+export function getPdfWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+}
+
+export function abortError() {
+  return new DOMException('Page generation cancelled', 'AbortError');
+}
+
+/**
+ * Runs a task in the PDF worker, relaying progress and cancellation
+ */
+export function runInWorker<K extends WorkerTask>(
+  worker: Worker,
+  type: K,
+  input: WorkerTasks[K]['input'],
+  { onProgress, signal }: WorkerRunOptions = {}
+): Promise<WorkerTasks[K]['result']> {
+  const jobId = nextJobId++;
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.jobId !== jobId) return;
+      if (response.type === 'progress') {
+        onProgress?.(response.done, response.total);
+        return;
+      }
+      cleanup();
+      if (response.type === 'done') resolve(response.result as WorkerTasks[K]['result']);
+      else reject(response.cancelled ? abortError() : new Error(response.message));
+    };
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'PDF worker failed'));
+    };
+    const handleAbort = () => {
+      worker.postMessage({ type: 'cancel', jobId } satisfies WorkerRequest);
+      cleanup();
+      reject(abortError());
+    };
+
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage({ type, jobId, input } as WorkerRequest);
+  });
+}
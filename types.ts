@@ -1,26 +1,221 @@
 
 export enum PageSize {
+  A3 = 'A3',
   A4 = 'A4',
+  A5 = 'A5',
+  B5 = 'B5',
   Letter = 'Letter',
-  Legal = 'Legal'
+  Legal = 'Legal',
+  Custom = 'Custom',
+  FitWidth = 'FitWidth' // page as wide as the source image
 }
 
+// Paper sizes with fixed dimensions
+export type StandardPageSize = Exclude<PageSize, PageSize.Custom | PageSize.FitWidth>;
+
+export type LengthUnit = 'mm' | 'in';
+
 export enum Orientation {
   Portrait = 'portrait',
   Landscape = 'landscape'
 }
 
+export enum PageEncoding {
+  Auto = 'auto', // chosen per page from its content
+  Jpeg = 'jpeg',
+  Png = 'png', // lossless, Flate-compressed in the PDF
+  Grayscale = 'grayscale', // single-channel JPEG, DeviceGray in the PDF
+  BlackWhite = 'bw' // thresholded to a 1-bit PNG, for text-only documents
+}
+
+// Image format a page is embedded with
+export type ImageFormat = 'JPEG' | 'PNG';
+
+export enum ScaleMode {
+  FitWidth = 'fit-width', // image width fills the column
+  FitPage = 'fit-page', // like fit width, but never enlarged beyond maxScale of its natural size
+  Fixed = 'fixed' // scalePercent of the natural size (96 DPI), capped at the column width
+}
+
+export enum HorizontalAlign {
+  Left = 'left',
+  Center = 'center',
+  Right = 'right'
+}
+
+// What happens to the last page of each source
+export enum LastPageMode {
+  Pad = 'pad', // full sheet, white below the content
+  Shrink = 'shrink', // sheet cut down to the content
+  Merge = 'merge' // a short tail is scaled onto the previous page
+}
+
+export enum BatchMode {
+  Merge = 'merge', // all sources in one PDF
+  Separate = 'separate' // one PDF per source, bundled as ZIP
+}
+
+// What the download button produces
+export enum ExportTarget {
+  Pdf = 'pdf',
+  Images = 'images', // ZIP of numbered page images
+  Html = 'html' // one self-contained, printable HTML file
+}
+
+// Image format of exported pages; 'original' keeps each page's own encoding
+export type ImageExportFormat = ImageFormat | 'original';
+
+export enum WatermarkType {
+  None = 'none',
+  Text = 'text',
+  Image = 'image'
+}
+
+export interface WatermarkOptions {
+  type: WatermarkType;
+  text: string;
+  imageDataUrl: string | null;
+  opacity: number; // 0-1
+}
+
+export enum PageLabelStyle {
+  None = 'none',
+  Decimal = 'D', // 1, 2, 3
+  RomanLower = 'r', // i, ii, iii
+  RomanUpper = 'R', // I, II, III
+  AlphaLower = 'a' // a, b, c
+}
+
+export interface PageLabelOptions {
+  style: PageLabelStyle;
+  prefix: string; // e.g. "A-" gives A-1, A-2
+  start: number;
+}
+
 export interface PdfOptions {
   pageSize: PageSize;
+  customWidth: number; // in customUnit, used with PageSize.Custom
+  customHeight: number;
+  customUnit: LengthUnit;
   orientation: Orientation;
   margin: number; // in mm
+  columns: number; // 1-4, the image flows top to bottom through each column
+  columnGap: number; // in mm
+  nUp: number; // pages per sheet: 1, 2 or 4
+  scaleMode: ScaleMode;
+  maxScale: number; // upper limit for ScaleMode.FitPage, 1 = natural size
+  scalePercent: number; // for ScaleMode.Fixed
+  align: HorizontalAlign; // when the image is narrower than the column
+  lastPage: LastPageMode;
   quality: number; // 0-1
+  dpi: number | null; // resample pages to this resolution; original pixels when null
+  encoding: PageEncoding;
+  smartSplit: boolean; // move page breaks into whitespace between lines
+  splitTolerance: number; // 0-0.5, share of a page height a break may move up
+  searchable: boolean; // add an invisible OCR text layer
+  targetSizeMb: number | null; // search quality/resolution until the PDF fits
+  headerTemplate: string; // tokens: {page} {total} {filename} {date}
+  footerTemplate: string;
+  watermark: WatermarkOptions;
+  pageLabels: PageLabelOptions;
+  cleanup: CleanupOptions;
+  poster: PosterOptions;
+  print: PrintOptions;
+}
+
+// How pages are arranged on the printed sheets
+export enum PrintLayout {
+  Normal = 'normal',
+  Booklet = 'booklet' // saddle stitch: two pages per side in folding order, padded to a multiple of 4
+}
+
+export interface PrintOptions {
+  layout: PrintLayout;
+  gutter: number; // mm added to the margin at the binding edge
+  mirrorMargins: boolean; // duplex: the binding edge alternates between left and right pages
+}
+
+// Large-format printing: the image is enlarged to a physical width and tiled across sheets
+export interface PosterOptions {
+  enabled: boolean; // replaces the page flow, columns and n-up
+  widthMm: number; // printed width of the whole image; the height follows its aspect ratio
+  overlap: number; // mm printed on both neighbouring tiles, to glue or tape over
+  marks: boolean; // crop and registration marks, overlap guides and row/column labels in the margins
+}
+
+// Place of a page in the poster grid; rectangle in mm of the whole poster
+export interface PosterTile {
+  row: number; // from 0
+  column: number;
+  rows: number;
+  columns: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  overlap: number; // mm shared with each neighbour
+}
+
+// Screenshot chrome removed from every source before it is paginated
+export interface CleanupOptions {
+  cropTop: number; // source pixels, e.g. the phone status bar
+  cropBottom: number; // e.g. a navigation bar or home indicator
+  trimSides: boolean; // drop uniform margins left and right
+  removeRepeatedBars: boolean; // sticky headers/footers duplicated by scroll stitching
+}
+
+// Part of a source that remains after cleanup, in source pixels
+export interface SourceView {
+  left: number; // first kept column
+  right: number; // end of the kept columns (exclusive)
+  spans: KeepRegion[]; // kept row ranges, top to bottom; gaps between them are removed bars
+}
+
+// Document info written to the PDF
+export interface DocumentProperties {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+}
+
+// A recognised word; box in pixels of the image it was read from
+export interface OcrWord {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rectangle in source pixels that is filled solid before the source is sliced
+export interface Redaction {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Region proposed by PII detection, accepted by the user as a Redaction
+export interface RedactionSuggestion extends Redaction {
+  label: string; // kind of information, e.g. "手机号"
+  text: string; // the recognised text that matched
 }
 
 export interface ProcessedPage {
+  sourceId: string;
+  sourceY: number; // first source row on this page
+  sourceHeight: number; // source rows captured on this page, including skipped ones
+  sourceX: number; // first source column on this page (side trimming)
+  skipped?: KeepRegion[]; // source rows inside the page range that were removed
   dataUrl: string;
+  format: ImageFormat;
+  pixelScale: number; // page pixels per source pixel
+  contentHeight: number; // page pixels holding image content; the rest is white padding
   width: number;
   height: number;
+  textLayer?: OcrWord[]; // word boxes in page pixels
+  tile?: PosterTile; // set in poster mode
 }
 
 export interface ImageMetadata {
@@ -30,3 +225,71 @@ export interface ImageMetadata {
   type: string;
   size: number;
 }
+
+// Rows [start, end) of a source that should not be split across pages
+export interface KeepRegion {
+  start: number;
+  end: number;
+}
+
+// Join between two consecutive screenshots being stitched into one long image
+export interface StitchSeam {
+  upperEnd: number; // rows of the upper capture kept, from its top
+  lowerStart: number; // first row of the lower capture kept
+  detected: boolean; // false when no overlap was found and only fixed bars are dropped
+}
+
+// Named position in a source; becomes an outline entry for the page containing it
+export interface Bookmark {
+  y: number; // source row
+  title: string;
+}
+
+export enum AiProvider {
+  Disabled = 'disabled',
+  Gemini = 'gemini',
+  OpenAiCompatible = 'openai' // Ollama, llama.cpp server, vLLM, ...
+}
+
+// Chosen in the UI and kept in localStorage
+export interface AiSettings {
+  provider: AiProvider;
+  geminiApiKey: string;
+  geminiModel: string;
+  endpoint: string; // base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey: string; // optional bearer token for the OpenAI-compatible endpoint
+  consentedTo: string | null; // destination the user agreed to send images to
+}
+
+// Structured result of the AI document analysis, positions in source rows
+export interface DocumentAnalysis {
+  summary: string;
+  sections: Bookmark[];
+  safeCuts: number[]; // rows the model considers safe to break at
+}
+
+export interface SourceImage {
+  id: string;
+  dataUrl: string;
+  metadata: ImageMetadata;
+  breaks?: number[]; // manual page breaks in source rows; automatic when unset
+  keepTogether?: KeepRegion[];
+  bookmarks?: Bookmark[];
+  redactions?: Redaction[]; // burned into the pixels before slicing
+}
+
+// Named set of options, kept in localStorage and exchanged as JSON files
+export interface PdfPreset {
+  name: string;
+  options: PdfOptions;
+}
+
+// Work in progress autosaved to IndexedDB and offered for restore on the next visit
+export interface SavedSession {
+  savedAt: number; // epoch ms
+  sources: SourceImage[];
+  options: PdfOptions;
+  batchMode: BatchMode;
+  properties: DocumentProperties;
+}
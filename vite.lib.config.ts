@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// Node build of the library and the longimg2pdf CLI (npm run build:lib).
+// Dependencies stay external and are loaded from node_modules at runtime.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: true,
+    outDir: 'dist-lib',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'lib/index.ts',
+        node: 'lib/node.ts',
+        longimg2pdf: 'cli/longimg2pdf.ts'
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js'
+      }
+    }
+  }
+});